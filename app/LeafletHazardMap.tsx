@@ -5,11 +5,14 @@ import type { LatLngExpression, LeafletMouseEvent } from "leaflet";
 import L from "leaflet";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
+  CircleMarker,
   FeatureGroup,
   MapContainer,
   Marker,
   Polyline,
+  Popup,
   TileLayer,
+  Tooltip,
   useMapEvent,
 } from "react-leaflet";
 import { EditControl } from "react-leaflet-draw";
@@ -17,6 +20,126 @@ import { EditControl } from "react-leaflet-draw";
 import "leaflet-draw/dist/leaflet.draw.css";
 import "leaflet/dist/leaflet.css";
 
+import HazardEditor from "./_components/HazardEditor";
+import { buildAvoidPolygons } from "./_lib/avoid";
+import {
+  encountersCsv,
+  hazardEncounters,
+  routeExposure,
+  routeScore,
+} from "./_lib/exposure";
+import {
+  formatDistance,
+  formatDuration,
+  fromLocalInput,
+  toLocalInput,
+} from "./_lib/format";
+import { readTraceFile, traceToGpx, type TraceFix } from "./_lib/gpsTrace";
+import {
+  findDetours,
+  HANDOFF_TARGETS,
+  pickVias,
+  type Detour,
+  type HandOffTarget,
+} from "./_lib/handoff";
+import {
+  downloadText,
+  importedDraft,
+  readHazardFile,
+  serializeHazards,
+  type HazardFileFormat,
+} from "./_lib/hazardFormats";
+import {
+  DEFAULT_HAZARD_DRAFT,
+  HAZARD_AVOIDANCE,
+  HAZARD_CATEGORIES,
+  HAZARD_REVIEW_ACTIONS,
+  HAZARD_SEVERITIES,
+  HAZARD_STATUSES,
+  hazardLabel,
+  hazardStyle,
+  isHazardActiveAt,
+  isHazardExpiredAt,
+  type Hazard,
+  type HazardAvoidance,
+  type HazardCategory,
+  type HazardDraft,
+  type HazardEvent,
+  type HazardFeature,
+  type HazardReviewAction,
+  type HazardSeverity,
+} from "./_lib/hazards";
+import {
+  clearHazards,
+  conflictingHazard,
+  createHazard,
+  checkModerator,
+  deleteHazard,
+  listHazards,
+  reviewHazard,
+  setEditorName,
+  setModeratorKey,
+  subscribeHazardEvents,
+  updateHazard,
+} from "./_lib/hazardsApi";
+import { planRoute } from "./_lib/legPlanner";
+import { createPositionFilter, createRouteMatcher } from "./_lib/mapMatch";
+import { cumulativeMeters, routeProgress } from "./_lib/progress";
+import {
+  loadRoadGraph,
+  routeOffline,
+  type RoadGraph,
+} from "./_lib/offlineRouter";
+import {
+  AVOID_FEATURES,
+  INSTRUCTION_LANGUAGES,
+  MAX_ALTERNATIVES,
+  TRAVEL_PROFILES,
+  type AvoidFeature,
+  type HgvParams,
+  type InstructionLanguage,
+  type LngLat,
+  type NormalizedRoute,
+  type RouteOptions,
+  type RouteSummary,
+  type TravelProfile,
+} from "./_lib/routing";
+import {
+  geocodeAutocomplete,
+  requestDirections,
+  type GeocodeFeature,
+} from "./_lib/routingApi";
+import {
+  decodeScenario,
+  encodeScenario,
+  MAX_SCENARIO_FRAGMENT,
+  sameGeometry,
+  SCENARIO_HASH_KEY,
+  scenarioHazards,
+  SHARE_HASH_KEY,
+  type Scenario,
+} from "./_lib/scenario";
+import { createShareLink, fetchShareLink } from "./_lib/shareApi";
+import {
+  createSimulator,
+  NO_SIM_NOISE,
+  noisyFix,
+  offsetPoint,
+  type SimNoise,
+} from "./_lib/simulator";
+import {
+  canSpeak,
+  phrases,
+  speak,
+  spokenDistance,
+  stopSpeaking,
+} from "./_lib/voice";
+import {
+  newWaypointId,
+  optimiseStopOrder,
+  type Waypoint,
+} from "./_lib/waypoints";
+
 /* ---------- Marker icon fix ---------- */
 const DefaultIcon = L.icon({
   iconUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png",
@@ -29,21 +152,62 @@ const DefaultIcon = L.icon({
 L.Marker.prototype.options.icon = DefaultIcon;
 
 /* ---------- Types ---------- */
-type Hazard = GeoJSON.Polygon | GeoJSON.MultiPolygon;
-type LngLat = [number, number];
 type LatLngNum = [number, number];
+type Placing = "start" | "end" | "stop" | "hazard-point" | null;
 
-type ORSGeocodeFeature = {
-  geometry: { coordinates: [number, number] };
-  properties?: { label?: string };
-};
-
-/* ---------- ORS heuristic limits ---------- */
-const ORS_MAX_AVOID_AREA_KM2 = 200;
-const ORS_MAX_AVOID_BBOX_SIDE_KM = 20;
+/* ---------- Limits ---------- */
 const MAX_DRAWN_CIRCLE_RADIUS_M = 5000;
 const OFF_ROUTE_THRESHOLD_M = 40;
-const MAX_ROUTE_KM_WITH_AVOID = 150;
+const REROUTE_AFTER_FIXES = 3;
+const REROUTE_COOLDOWN_MS = 30_000;
+const OFFLINE_ROADS_URL =
+  process.env.NEXT_PUBLIC_OFFLINE_ROADS_URL || "/roads.geojson";
+const SIM_SPEEDS_KMH = [
+  ...new Set([
+    ...Object.values(TRAVEL_PROFILES).map((p) => p.speedKmh),
+    20,
+    40,
+    60,
+    80,
+  ]),
+].sort((a, b) => a - b);
+// Speed-ups for the simulator and trace replay
+const SPEED_MULTIPLIERS = [1, 2, 5, 10];
+const SIM_TICK_MS = 250;
+const REPORTER_STORAGE_KEY = "hazard-map:reporter";
+const MODERATOR_STORAGE_KEY = "hazard-map:moderator-key";
+const PROPOSAL_SENT =
+  "This report has been reviewed, so your edit was sent to a moderator. It stays as it was until they accept it.";
+const VOICE_STORAGE_KEY = "hazard-map:voice";
+// Distances before a manoeuvre at which it is announced
+const ANNOUNCE_PRESETS: Record<string, { label: string; meters: number[] }> = {
+  early: { label: "Early (1 km, 300 m)", meters: [1000, 300] },
+  standard: { label: "Standard (500 m, 100 m)", meters: [500, 100] },
+  late: { label: "Late (200 m, 30 m)", meters: [200, 30] },
+};
+// How far ahead along the route hazards raise an alert
+const ALERT_AHEAD_M = [200, 500, 1000, 2000];
+const ALERT_VIBRATION: Record<HazardSeverity, number[]> = {
+  low: [100],
+  medium: [200],
+  high: [200, 100, 200],
+  critical: [400, 100, 400, 100, 400],
+};
+const MAX_ACTIVITY = 5; // live changes listed at once
+const EXPIRED_HAZARD_STYLE = {
+  color: "#9ca3af",
+  weight: 1,
+  fillColor: "#9ca3af",
+  fillOpacity: 0.08,
+  dashArray: "4 4",
+};
+// Reports awaiting review: dotted outline, barely filled
+const PENDING_HAZARD_STYLE = {
+  weight: 3,
+  fillOpacity: 0.06,
+  dashArray: "1 6",
+  lineCap: "round" as const,
+};
 
 /* ---------- Helpers ---------- */
 function toGeoJSONPolygon(layer: any): Hazard | null {
@@ -68,94 +232,103 @@ function toGeoJSONPolygon(layer: any): Hazard | null {
   return null;
 }
 
-function unionHazards(polys: Hazard[]): Hazard | null {
-  if (polys.length === 0) return null;
-  if (polys.length === 1) return polys[0];
-  try {
-    let acc: any = turf.feature(polys[0]);
-    for (let i = 1; i < polys.length; i++) {
-      acc = (turf as any).union(acc, turf.feature(polys[i]));
-    }
-    if (acc?.geometry) return acc.geometry as Hazard;
-  } catch {}
-  const coordinates: number[][][][] = [];
-  for (const g of polys) {
-    if (g.type === "Polygon") {
-      if ((g.coordinates?.[0]?.length ?? 0) >= 4)
-        coordinates.push(g.coordinates as number[][][]);
-    } else if (g.type === "MultiPolygon") {
-      for (const poly of g.coordinates)
-        if ((poly?.[0]?.length ?? 0) >= 4) coordinates.push(poly);
+// Imported features become drawable layers; points and open lines get buffered
+function importedLayers(
+  feature: GeoJSON.Feature,
+  bufferMeters: number
+): L.Layer[] {
+  const out: L.Layer[] = [];
+  const radius = Math.max(1, bufferMeters);
+  const visit = (layer: any) => {
+    if (layer instanceof L.LayerGroup) {
+      layer.eachLayer(visit);
+    } else if (layer instanceof L.Polygon || layer instanceof L.Circle) {
+      out.push(layer);
+    } else if (layer instanceof L.Polyline) {
+      const g = (layer.toGeoJSON() as GeoJSON.Feature).geometry;
+      const lines =
+        g.type === "LineString"
+          ? [g.coordinates]
+          : g.type === "MultiLineString"
+            ? g.coordinates
+            : [];
+      for (const line of lines) {
+        if (line.length < 2) continue;
+        const [first, last] = [line[0], line[line.length - 1]];
+        if (line.length >= 4 && first[0] === last[0] && first[1] === last[1]) {
+          // Closed track/ring (e.g. GPX export) -> polygon
+          out.push(L.polygon(line.map(([lng, lat]) => [lat, lng])));
+        } else {
+          const buffered = turf.buffer(turf.lineString(line), radius / 1000, {
+            units: "kilometers",
+          });
+          if (buffered) out.push(...L.geoJSON(buffered).getLayers());
+        }
+      }
     }
-  }
-  if (!coordinates.length) return null;
-  return { type: "MultiPolygon", coordinates } as GeoJSON.MultiPolygon;
-}
-
-function debounce<T extends (...a: any[]) => void>(fn: T, ms: number) {
-  let t: any;
-  return (...args: Parameters<T>) => {
-    clearTimeout(t);
-    t = setTimeout(() => fn(...args), ms);
   };
+  L.geoJSON(feature as any, {
+    pointToLayer: (_f, latlng) => L.circle(latlng, { radius }),
+  }).eachLayer(visit);
+  return out;
 }
 
-function simplifyAndSampleWaypoints(
-  routeLngLat: LngLat[],
-  maxPoints = 8
-): { lat: number; lng: number }[] {
-  if (!routeLngLat.length) return [];
-  const simplified = turf.simplify(turf.lineString(routeLngLat), {
-    tolerance: 0.0009,
-    highQuality: false,
-  }).geometry.coordinates as LngLat[];
-  const pts =
-    simplified.length <= maxPoints
-      ? simplified
-      : simplified.filter(
-          (_, i) => i % Math.ceil(simplified.length / maxPoints) === 0
-        );
-  return pts.map(([lng, lat]) => ({ lat, lng }));
+// Greys out expired and closed hazards (or hides them), dots pending
+// reports and dashes not-yet-active ones
+function styleHazardLayer(
+  layer: any,
+  hazard: HazardFeature,
+  time: number,
+  showExpired: boolean
+) {
+  const expired =
+    isHazardExpiredAt(hazard.properties, time) ||
+    HAZARD_STATUSES[hazard.properties.status].closed;
+  const hidden = expired && !showExpired;
+  const style = expired
+    ? EXPIRED_HAZARD_STYLE
+    : {
+        ...hazardStyle(hazard.properties),
+        ...(isHazardActiveAt(hazard.properties, time)
+          ? {}
+          : { dashArray: "6 6" }),
+        ...(hazard.properties.status === "pending" ? PENDING_HAZARD_STYLE : {}),
+      };
+  layer.setStyle?.({
+    ...style,
+    opacity: hidden ? 0 : 1,
+    fillOpacity: hidden ? 0 : style.fillOpacity,
+  });
+  const el = layer.getElement?.();
+  if (el) el.style.pointerEvents = hidden ? "none" : "";
 }
 
-function openGMaps(
-  origin: { lat: number; lng: number },
-  dest: { lat: number; lng: number },
-  via: { lat: number; lng: number }[]
-) {
-  const url = new URL("https://www.google.com/maps/dir/");
-  url.searchParams.set("api", "1");
-  url.searchParams.set("travelmode", "driving");
-  url.searchParams.set("origin", `${origin.lat},${origin.lng}`);
-  url.searchParams.set("destination", `${dest.lat},${dest.lng}`);
-  if (via.length) {
-    url.searchParams.set(
-      "waypoints",
-      via.map((v) => `${v.lat},${v.lng}`).join("|")
-    );
-  }
-  window.open(url.toString(), "_blank", "noopener,noreferrer");
+// Drawn layers carry the id of the stored hazard they render
+function hazardIdOf(layer: any): string | null {
+  return layer?.hazardId ?? null;
 }
 
-function polygonAreaKm2(poly: GeoJSON.Polygon) {
-  return turf.area(poly) / 1_000_000;
+// ...and the version they show; edits send it back to detect conflicts
+function hazardVersionOf(layer: any): number {
+  return layer?.hazardVersion ?? 0;
 }
 
-function bboxSideKm(poly: GeoJSON.Polygon) {
-  const [minX, minY, maxX, maxY] = turf.bbox(poly);
-  const width = turf.distance([minX, maxY], [maxX, maxY], {
-    units: "kilometers",
-  });
-  const height = turf.distance([minX, minY], [minX, maxY], {
-    units: "kilometers",
-  });
-  return { width, height };
+function hazardLayer(hazard: HazardFeature): L.Layer | null {
+  const layer = L.geoJSON(hazard.geometry, {
+    style: hazardStyle(hazard.properties),
+  }).getLayers()[0] as any;
+  if (!layer) return null;
+  layer.hazardId = hazard.id;
+  layer.hazardVersion = hazard.properties.version;
+  return layer;
 }
 
-function approxStartEndKm(a: LatLngExpression, b: LatLngExpression) {
-  const [alat, alng] = a as [number, number];
-  const [blat, blng] = b as [number, number];
-  return turf.distance([alng, alat], [blng, blat], { units: "kilometers" });
+function debounce<T extends (...a: any[]) => void>(fn: T, ms: number) {
+  let t: any;
+  return (...args: Parameters<T>) => {
+    clearTimeout(t);
+    t = setTimeout(() => fn(...args), ms);
+  };
 }
 
 /* ---------- Click handler (inside MapContainer) ---------- */
@@ -163,13 +336,15 @@ function ClickHandler({
   placing,
   onSetStart,
   onSetEnd,
+  onAddStop,
   onAddHazardPoint,
   clearPlacing,
   activeMode,
 }: {
-  placing: "start" | "end" | "hazard-point" | null;
+  placing: Placing;
   onSetStart: (latlng: LatLngExpression) => void;
   onSetEnd: (latlng: LatLngExpression) => void;
+  onAddStop: (latlng: LatLngNum) => void;
   onAddHazardPoint: (latlng: LatLngExpression) => void;
   clearPlacing: () => void;
   activeMode: "hazard" | "navigate";
@@ -178,6 +353,7 @@ function ClickHandler({
     if (activeMode === "navigate") {
       if (placing === "start") onSetStart([e.latlng.lat, e.latlng.lng]);
       else if (placing === "end") onSetEnd([e.latlng.lat, e.latlng.lng]);
+      else if (placing === "stop") onAddStop([e.latlng.lat, e.latlng.lng]);
     } else if (activeMode === "hazard") {
       if (placing === "hazard-point")
         onAddHazardPoint([e.latlng.lat, e.latlng.lng]);
@@ -200,7 +376,7 @@ function SearchBox({
   onTyping?: (text: string) => void;
 }) {
   const [q, setQ] = useState(value);
-  const [results, setResults] = useState<ORSGeocodeFeature[] | null>(null);
+  const [results, setResults] = useState<GeocodeFeature[] | null>(null);
   const [open, setOpen] = useState(false);
 
   const search = useMemo(
@@ -211,13 +387,7 @@ function SearchBox({
           return;
         }
         try {
-          const res = await fetch(
-            `https://api.openrouteservice.org/geocode/autocomplete?api_key=${encodeURIComponent(
-              process.env.NEXT_PUBLIC_ORS_KEY || ""
-            )}&text=${encodeURIComponent(text)}&size=6`
-          );
-          const data = await res.json();
-          setResults((data?.features ?? []) as ORSGeocodeFeature[]);
+          setResults(await geocodeAutocomplete(text, 6));
           setOpen(true);
         } catch (e) {
           console.error(e);
@@ -285,40 +455,320 @@ export default function LeafletHazardMap() {
   ]);
   const [route, setRoute] = useState<LatLngExpression[] | null>(null);
   const [routeLngLat, setRouteLngLat] = useState<LngLat[] | null>(null);
+  const [routeProvider, setRouteProvider] = useState<string | null>(null);
+  const [forceOffline, setForceOffline] = useState(false);
+  const [profile, setProfile] = useState<TravelProfile>("car");
+  const [hgv, setHgv] = useState<HgvParams>({});
+  const [avoidFeatures, setAvoidFeatures] = useState<AvoidFeature[]>([]);
+  const offlineGraphRef = useRef<Promise<RoadGraph | null> | null>(null);
   const [instructions, setInstructions] = useState<
-    { text: string; distance: number }[]
+    {
+      text: string;
+      distance: number;
+      duration: number;
+      wayPoints: [number, number];
+      leg?: number;
+    }[]
   >([]);
+  const [stops, setStops] = useState<Waypoint[]>([]); // between start and end
+  const [segments, setSegments] = useState<RouteSummary[]>([]);
+  const [routes, setRoutes] = useState<NormalizedRoute[]>([]); // best first
+  const [selectedRoute, setSelectedRoute] = useState(0);
+  const [exposureRadius, setExposureRadius] = useState(100); // metres
+  const [showReport, setShowReport] = useState(false);
 
   // Navigate search fields
   const [fromText, setFromText] = useState("");
   const [toText, setToText] = useState("");
+  const [departAt, setDepartAt] = useState<string | null>(null); // null = now
 
   // Hazards
-  const [hazards, setHazards] = useState<Hazard[]>([]);
-  const [placing, setPlacing] = useState<
-    "start" | "end" | "hazard-point" | null
-  >(null);
+  const [hazards, setHazards] = useState<HazardFeature[]>([]);
+  const [placing, setPlacing] = useState<Placing>(null);
   const [hazardBufferMeters, setHazardBufferMeters] = useState<number>(150);
+  const [hazardsLoaded, setHazardsLoaded] = useState(false);
+  const scenarioRestoredRef = useRef(false);
+  const [newCategory, setNewCategory] = useState<HazardCategory>("other");
+  const [newSeverity, setNewSeverity] = useState<HazardSeverity>("medium");
+  const [newAvoidance, setNewAvoidance] = useState<HazardAvoidance>("block");
+  const [reporter, setReporter] = useState("");
+  const [moderatorKey, setModeratorKeyText] = useState("");
+  // null until the server has answered; configured: moderator keys are set
+  const [moderation, setModeration] = useState<{
+    moderator: boolean;
+    configured: boolean;
+  } | null>(null);
+  const [editing, setEditing] = useState<{
+    id: string;
+    latlng: L.LatLng;
+  } | null>(null);
+  const drawBusyRef = useRef(false); // leaflet-draw edit/delete mode active
+  // Live collaboration: latest changes by others, and a new hazard that
+  // crossed the route being navigated
+  const [activity, setActivity] = useState<{ text: string; at: number }[]>([]);
+  const [routeHazardNotice, setRouteHazardNotice] = useState<{
+    id: string;
+    by: string;
+  } | null>(null);
+  const [showExpired, setShowExpired] = useState(true);
+  const [now, setNow] = useState(() => Date.now());
+  const [dragOver, setDragOver] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
 
   // Realtime nav (real GPS)
   const [navigating, setNavigating] = useState(false);
   const [userPos, setUserPos] = useState<LatLngNum | null>(null);
+  // Matched distance along the route it was matched on (see trackFix)
+  const [userAlong, setUserAlong] = useState<{
+    meters: number;
+    route: LngLat[];
+  } | null>(null);
+  const [smoothGps, setSmoothGps] = useState(true); // filter + snap to route
+  const [handOffNote, setHandOffNote] = useState<string | null>(null);
   const [offRoute, setOffRoute] = useState(false);
   const [offRouteMeters, setOffRouteMeters] = useState<number>(0);
   const watchIdRef = useRef<number | null>(null);
+  const [autoReroute, setAutoReroute] = useState(true);
+  const [rerouting, setRerouting] = useState(false);
+  const [rerouteCount, setRerouteCount] = useState(0);
+  const offRouteFixesRef = useRef(0);
+  const lastRerouteAtRef = useRef(0);
+  const rerouteInFlightRef = useRef(false);
   const wakeLockRef = useRef<any>(null);
 
   // Realtime nav (simulation)
   const [simulateOn, setSimulateOn] = useState(false);
-  const [simSpeedKmh, setSimSpeedKmh] = useState(40);
+
+  // Voice guidance
+  const [language, setLanguage] = useState<InstructionLanguage>("en");
+  const [voiceOn, setVoiceOn] = useState(true);
+  const [voiceVolume, setVoiceVolume] = useState(1);
+  const [announceAt, setAnnounceAt] = useState("standard");
+  const spokenRef = useRef(new Set<string>()); // announcements already made
+
+  // Proximity alerts (once per hazard per trip)
+  const [alertAheadMeters, setAlertAheadMeters] = useState(500);
+  const [hazardAlerts, setHazardAlerts] = useState<string[]>([]); // hazard ids
+  const alertedRef = useRef(new Set<string>());
+  const [simSpeedKmh, setSimSpeedKmh] = useState(0); // 0: the route's own timing
+  const [simMultiplier, setSimMultiplier] = useState(1);
+  const [simPaused, setSimPaused] = useState(false);
+  const [simDistM, setSimDistM] = useState(0); // mirrors simDistMRef for the UI
+  const [simNoise, setSimNoise] = useState<SimNoise>(NO_SIM_NOISE);
+  const [simOffsetM, setSimOffsetM] = useState(0); // sideways off the route
   const simTimerRef = useRef<number | null>(null);
-  const simDistKmRef = useRef(0);
+  const simDistMRef = useRef(0);
+  const simLastTickRef = useRef(0);
+  const simDriftRef = useRef({ e: 0, n: 0 });
+  const simClockRef = useRef(0); // simulated time of the last fix, ms
+  // Set by "Veer off": keep going straight from where the route was left
+  const simVeerRef = useRef<{
+    from: LngLat;
+    bearing: number;
+    atM: number;
+  } | null>(null);
+
+  // GPS traces: fixes recorded during real navigation, and one loaded to replay
+  const recordedRef = useRef<TraceFix[]>([]);
+  const [recordedCount, setRecordedCount] = useState(0);
+  const [replayTrace, setReplayTrace] = useState<TraceFix[] | null>(null);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replaying, setReplaying] = useState(false);
+  const replayTimerRef = useRef<number | null>(null);
+  const traceInputRef = useRef<HTMLInputElement | null>(null);
 
   // Misc
   const drawnItemsRef = useRef<L.FeatureGroup | null>(null);
   const mapRef = useRef<L.Map | null>(null);
 
   /* ---------- Hazards IO ---------- */
+  useEffect(() => {
+    setReporter(localStorage.getItem(REPORTER_STORAGE_KEY) ?? "");
+  }, []);
+  useEffect(() => {
+    localStorage.setItem(REPORTER_STORAGE_KEY, reporter);
+    setEditorName(reporter);
+  }, [reporter]);
+  useEffect(() => {
+    setModeratorKeyText(localStorage.getItem(MODERATOR_STORAGE_KEY) ?? "");
+  }, []);
+  // Checked after typing settles rather than on every keystroke
+  useEffect(() => {
+    localStorage.setItem(MODERATOR_STORAGE_KEY, moderatorKey);
+    setModeratorKey(moderatorKey);
+    let cancelled = false;
+    const t = window.setTimeout(() => {
+      checkModerator()
+        .then((m) => !cancelled && setModeration(m))
+        .catch(console.error);
+    }, 500);
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+    };
+  }, [moderatorKey]);
+  const canModerate = !!moderation?.moderator;
+  // Others' edits to a reviewed report wait for a moderator (see hazardStore)
+  const heldForReview = useCallback(
+    (saved: HazardFeature) =>
+      !canModerate &&
+      saved.properties.status !== "pending" &&
+      !!saved.properties.proposal,
+    [canModerate]
+  );
+  useEffect(() => {
+    try {
+      const v = JSON.parse(localStorage.getItem(VOICE_STORAGE_KEY) ?? "{}");
+      if (Object.hasOwn(INSTRUCTION_LANGUAGES, v.language))
+        setLanguage(v.language);
+      if (typeof v.on === "boolean") setVoiceOn(v.on);
+      if (typeof v.volume === "number") setVoiceVolume(v.volume);
+      if (Object.hasOwn(ANNOUNCE_PRESETS, v.announceAt))
+        setAnnounceAt(v.announceAt);
+    } catch {}
+  }, []);
+  useEffect(() => {
+    localStorage.setItem(
+      VOICE_STORAGE_KEY,
+      JSON.stringify({
+        language,
+        on: voiceOn,
+        volume: voiceVolume,
+        announceAt,
+      })
+    );
+  }, [language, voiceOn, voiceVolume, announceAt]);
+
+  const findLayer = useCallback((id: string): any => {
+    let found: any = null;
+    drawnItemsRef.current?.eachLayer((layer) => {
+      if (hazardIdOf(layer) === id) found = layer;
+    });
+    return found;
+  }, []);
+
+  // Load the shared hazard set once and render it into the draw layer
+  useEffect(() => {
+    let cancelled = false;
+    listHazards()
+      .then((list) => {
+        if (cancelled) return;
+        setHazards(list);
+        for (const h of list) {
+          const layer = hazardLayer(h);
+          if (layer) drawnItemsRef.current?.addLayer(layer);
+        }
+        setHazardsLoaded(true);
+      })
+      .catch((e) => {
+        console.error(e);
+        alert("Could not load saved hazards.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Brings a hazard changed elsewhere onto the map unless ours is as new.
+  // A layer open in leaflet-draw keeps its shape; its older version turns
+  // the eventual save into a conflict instead
+  const applyRemoteHazard = useCallback(
+    (hazard: HazardFeature) => {
+      setHazards((prev) => {
+        const old = prev.find((h) => h.id === hazard.id);
+        if (!old) return [...prev, hazard];
+        if (old.properties.version >= hazard.properties.version) return prev;
+        return prev.map((h) => (h.id === hazard.id ? hazard : h));
+      });
+      const layer = findLayer(hazard.id);
+      if (layer) {
+        if (drawBusyRef.current) return;
+        if (hazardVersionOf(layer) >= hazard.properties.version) return;
+        drawnItemsRef.current?.removeLayer(layer);
+      }
+      const fresh = hazardLayer(hazard);
+      if (fresh) drawnItemsRef.current?.addLayer(fresh);
+    },
+    [findLayer]
+  );
+
+  const removeRemoteHazard = useCallback(
+    (id: string) => {
+      const layer = findLayer(id);
+      if (layer) drawnItemsRef.current?.removeLayer(layer);
+      setHazards((prev) => prev.filter((h) => h.id !== id));
+      setEditing((e) => (e?.id === id ? null : e));
+    },
+    [findLayer]
+  );
+
+  // After a dropped connection: take the server's set as it is now
+  const syncHazards = useCallback(
+    (list: HazardFeature[]) => {
+      const ids = new Set(list.map((h) => h.id));
+      const gone: string[] = [];
+      drawnItemsRef.current?.eachLayer((layer) => {
+        const id = hazardIdOf(layer);
+        if (id && !ids.has(id)) gone.push(id);
+      });
+      gone.forEach(removeRemoteHazard);
+      list.forEach(applyRemoteHazard);
+    },
+    [applyRemoteHazard, removeRemoteHazard]
+  );
+
+  // Runs a change made against `baseVersion`. If someone else changed the
+  // hazard first, the user either redoes it on top of theirs or keeps
+  // theirs (then null is returned and their version is shown)
+  const resolveConflict = useCallback(
+    async <T,>(
+      run: (baseVersion?: number) => Promise<T>,
+      baseVersion: number | undefined,
+      question: (who: string) => string
+    ): Promise<T | null> => {
+      try {
+        return await run(baseVersion);
+      } catch (e) {
+        const current = conflictingHazard(e);
+        if (!current) throw e;
+        if (confirm(question(current.properties.updatedBy || "Someone else")))
+          return run(current.properties.version);
+        applyRemoteHazard(current);
+        return null;
+      }
+    },
+    [applyRemoteHazard]
+  );
+
+  // Write a freshly drawn layer through to the store, dropping it on failure
+  // (imported shapes bring their own details, so skip the edit popup)
+  const persistNewLayer = useCallback(
+    async (layer: any, poly: Hazard, imported?: Partial<HazardDraft>) => {
+      const draft: HazardDraft = {
+        ...DEFAULT_HAZARD_DRAFT,
+        category: newCategory,
+        severity: newSeverity,
+        avoidance: newAvoidance,
+        reporter,
+        ...imported,
+      };
+      layer.setStyle?.(hazardStyle(draft));
+      try {
+        const saved = await createHazard(poly, draft);
+        layer.hazardId = saved.id;
+        layer.hazardVersion = saved.properties.version;
+        setHazards((prev) => [...prev, saved]);
+        if (!imported)
+          setEditing({ id: saved.id, latlng: layer.getBounds().getCenter() });
+      } catch (e) {
+        console.error(e);
+        drawnItemsRef.current?.removeLayer(layer);
+        alert("Could not save hazard. Please try again.");
+      }
+    },
+    [newCategory, newSeverity, newAvoidance, reporter]
+  );
+
   const addBufferedHazardPoint = useCallback(
     (latlng: LatLngExpression) => {
       const [lat, lng] = latlng as [number, number];
@@ -326,14 +776,10 @@ export default function LeafletHazardMap() {
       // Visible circle layer persists across modes
       const layer = L.circle([lat, lng], {
         radius: Math.max(1, hazardBufferMeters),
-        color: "#ef4444",
-        weight: 2,
-        fillColor: "#ef4444",
-        fillOpacity: 0.2,
       });
       drawnItemsRef.current?.addLayer(layer);
 
-      // Add to hazards state for ORS avoidance
+      // Persist as polygon for ORS avoidance
       const circle = turf.circle(
         [lng, lat],
         Math.max(1, hazardBufferMeters) / 1000,
@@ -342,210 +788,951 @@ export default function LeafletHazardMap() {
           units: "kilometers",
         }
       );
-      setHazards((prev) => [...prev, circle.geometry as Hazard]);
+      persistNewLayer(layer, circle.geometry as Hazard);
     },
-    [hazardBufferMeters]
+    [hazardBufferMeters, persistNewLayer]
   );
 
-  const onCreated = useCallback((e: any) => {
-    if (e.layer instanceof (L as any).Circle) {
-      const r = e.layer.getRadius?.() ?? 0;
-      if (r > MAX_DRAWN_CIRCLE_RADIUS_M) {
-        alert(
-          `Circle too large (> ${
-            MAX_DRAWN_CIRCLE_RADIUS_M / 1000
-          } km). Draw a smaller hazard.`
+  const onCreated = useCallback(
+    (e: any) => {
+      if (e.layer instanceof (L as any).Circle) {
+        const r = e.layer.getRadius?.() ?? 0;
+        if (r > MAX_DRAWN_CIRCLE_RADIUS_M) {
+          alert(
+            `Circle too large (> ${
+              MAX_DRAWN_CIRCLE_RADIUS_M / 1000
+            } km). Draw a smaller hazard.`
+          );
+          // @ts-ignore
+          drawnItemsRef.current?.removeLayer?.(e.layer);
+          return;
+        }
+      }
+      const poly = toGeoJSONPolygon(e.layer);
+      if (poly) persistNewLayer(e.layer, poly);
+    },
+    [persistNewLayer]
+  );
+
+  const onEdited = useCallback(
+    (e: any) => {
+      e.layers?.eachLayer(async (layer: any) => {
+        const id = hazardIdOf(layer);
+        const p = toGeoJSONPolygon(layer);
+        if (!id || !p) return;
+        try {
+          const saved = await resolveConflict(
+            (v) => updateHazard(id, { geometry: p }, v),
+            hazardVersionOf(layer),
+            (who) =>
+              `${who} changed this hazard while you were editing it. Replace it with your shape?`
+          );
+          if (!saved) return;
+          setHazards((prev) => prev.map((h) => (h.id === id ? saved : h)));
+          if (heldForReview(saved)) {
+            // The reviewed shape stays in force until a moderator accepts
+            drawnItemsRef.current?.removeLayer(layer);
+            const fresh = hazardLayer(saved);
+            if (fresh) drawnItemsRef.current?.addLayer(fresh);
+            alert(PROPOSAL_SENT);
+            return;
+          }
+          layer.hazardVersion = saved.properties.version;
+        } catch (err) {
+          console.error(err);
+          alert("Could not save hazard changes.");
+        }
+      });
+    },
+    [resolveConflict, heldForReview]
+  );
+
+  const onDeleted = useCallback(
+    (e: any) => {
+      e.layers?.eachLayer(async (layer: any) => {
+        const id = hazardIdOf(layer);
+        if (!id) return;
+        // Dropped from state (and so from routing) only once the server agrees
+        try {
+          const removed = await resolveConflict(
+            (v) => deleteHazard(id, v).then(() => true),
+            hazardVersionOf(layer),
+            (who) =>
+              `${who} changed this hazard before you deleted it. Delete it anyway?`
+          );
+          if (removed) setHazards((prev) => prev.filter((h) => h.id !== id));
+        } catch (err) {
+          console.error(err);
+          drawnItemsRef.current?.addLayer(layer);
+          alert("Could not delete hazard on the server.");
+        }
+      });
+    },
+    [resolveConflict]
+  );
+
+  /* ---------- Shareable links ---------- */
+  // A link's endpoints, buffer and mode are applied. Its hazards that the
+  // store doesn't have (same id or same shape) may have been deleted since,
+  // so they are only added to the shared map if the user agrees
+  const restoreScenario = useCallback(
+    async (scenario: Scenario) => {
+      const shown: L.Layer[] = [];
+      const missing: { layer: L.Layer; h: Scenario["hazards"][number] }[] = [];
+      for (const h of scenario.hazards) {
+        const layer = L.geoJSON(h.geometry).getLayers()[0];
+        if (!layer) continue;
+        shown.push(layer);
+        const known = hazards.some(
+          (k) => k.id === h.id || sameGeometry(k.geometry, h.geometry)
         );
-        // @ts-ignore
-        drawnItemsRef.current?.removeLayer?.(e.layer);
+        if (!known) missing.push({ layer, h });
+      }
+      setStart(scenario.start);
+      setEnd(scenario.end);
+      setHazardBufferMeters(scenario.hazardBufferMeters);
+      setMode(scenario.mode);
+      const bounds = L.featureGroup(shown).getBounds();
+      if (scenario.start) bounds.extend(scenario.start);
+      if (scenario.end) bounds.extend(scenario.end);
+      if (bounds.isValid())
+        mapRef.current?.fitBounds(bounds, { padding: [24, 24] });
+
+      const n = missing.length;
+      if (
+        !n ||
+        !confirm(
+          `${n} hazard${n === 1 ? " in this link is" : "s in this link are"} ` +
+            "not on the shared map (perhaps removed since). Add to the " +
+            "shared map for everyone?"
+        )
+      )
         return;
+      for (const { layer, h } of missing) {
+        drawnItemsRef.current?.addLayer(layer);
+        await persistNewLayer(layer, h.geometry, h.properties);
+      }
+    },
+    [hazards, persistNewLayer]
+  );
+
+  useEffect(() => {
+    if (!hazardsLoaded || scenarioRestoredRef.current) return;
+    scenarioRestoredRef.current = true;
+    const params = new URLSearchParams(window.location.hash.slice(1));
+    const inline = params.get(SCENARIO_HASH_KEY);
+    const shareId = params.get(SHARE_HASH_KEY);
+    if (!inline && !shareId) return;
+    (async () => {
+      try {
+        const data = inline ?? (await fetchShareLink(shareId!));
+        await restoreScenario(await decodeScenario(data));
+      } catch (e) {
+        console.error(e);
+        alert("Could not open the shared scenario.");
       }
+      // Reloading shouldn't apply the link again over later changes
+      history.replaceState(null, "", window.location.pathname);
+    })();
+  }, [hazardsLoaded, restoreScenario]);
+
+  const copyShareLink = useCallback(async () => {
+    try {
+      const data = await encodeScenario({
+        start: start as [number, number] | null,
+        end: end as [number, number] | null,
+        hazards: scenarioHazards(hazards),
+        hazardBufferMeters,
+        mode,
+      });
+      const base = `${window.location.origin}${window.location.pathname}`;
+      const short = data.length > MAX_SCENARIO_FRAGMENT;
+      const url = short
+        ? `${base}#${SHARE_HASH_KEY}=${await createShareLink(data)}`
+        : `${base}#${SCENARIO_HASH_KEY}=${data}`;
+      try {
+        await navigator.clipboard.writeText(url);
+        alert(
+          short
+            ? "Short link copied (the scenario is stored on the server)."
+            : "Link copied."
+        );
+      } catch {
+        prompt("Copy this link:", url);
+      }
+    } catch (e: any) {
+      console.error(e);
+      alert(`Could not create a link: ${e?.message ?? e}`);
     }
-    const poly = toGeoJSONPolygon(e.layer);
-    if (poly) setHazards((prev) => [...prev, poly]);
+  }, [start, end, hazards, hazardBufferMeters, mode]);
+
+  /* ---------- Import / export ---------- */
+  const importFiles = useCallback(
+    async (files: FileList | File[]) => {
+      const added: L.Layer[] = [];
+      const failed: string[] = [];
+      for (const file of Array.from(files)) {
+        try {
+          const features = await readHazardFile(file);
+          for (const f of features) {
+            const draft = importedDraft(f.properties);
+            for (const layer of importedLayers(f, hazardBufferMeters)) {
+              const poly = toGeoJSONPolygon(layer);
+              if (!poly) continue;
+              drawnItemsRef.current?.addLayer(layer);
+              added.push(layer);
+              await persistNewLayer(layer, poly, draft);
+            }
+          }
+        } catch (e) {
+          console.error(e);
+          failed.push(file.name);
+        }
+      }
+      if (added.length && mapRef.current) {
+        mapRef.current.fitBounds(L.featureGroup(added).getBounds(), {
+          padding: [24, 24],
+        });
+      }
+      if (failed.length) alert(`Could not import: ${failed.join(", ")}`);
+      else if (!added.length) alert("No hazard shapes found in the file.");
+    },
+    [hazardBufferMeters, persistNewLayer]
+  );
+
+  const exportHazards = useCallback(
+    (format: HazardFileFormat) => {
+      if (!hazards.length) {
+        alert("No hazards to export.");
+        return;
+      }
+      const { content, mime, ext } = serializeHazards(hazards, format);
+      const stamp = new Date().toISOString().slice(0, 10);
+      downloadText(`hazards-${stamp}.${ext}`, mime, content);
+    },
+    [hazards]
+  );
+
+  const onHazardClick = useCallback(
+    (e: L.LeafletMouseEvent) => {
+      const id = hazardIdOf((e as any).propagatedFrom);
+      if (!id || drawBusyRef.current || placing) return;
+      setEditing({ id, latlng: e.latlng });
+    },
+    [placing]
+  );
+
+  // baseVersion: the version shown when the editor was opened. On a
+  // conflict that the user resolves by keeping theirs, the editor stays open
+  const saveHazardProperties = useCallback(
+    async (id: string, draft: HazardDraft, baseVersion: number) => {
+      try {
+        const saved = await resolveConflict(
+          (v) => updateHazard(id, { properties: draft }, v),
+          baseVersion,
+          (who) =>
+            `${who} changed this hazard after you opened it. Overwrite their changes with yours?`
+        );
+        if (!saved) return;
+        const layer = findLayer(id);
+        if (layer) layer.hazardVersion = saved.properties.version;
+        setHazards((prev) => prev.map((h) => (h.id === id ? saved : h)));
+        setEditing(null);
+        if (heldForReview(saved)) alert(PROPOSAL_SENT);
+      } catch (e) {
+        console.error(e);
+        alert("Could not save hazard details.");
+      }
+    },
+    [findLayer, resolveConflict, heldForReview]
+  );
+
+  const removeHazard = useCallback(
+    async (id: string, baseVersion: number) => {
+      try {
+        const removed = await resolveConflict(
+          (v) => deleteHazard(id, v).then(() => true),
+          baseVersion,
+          (who) =>
+            `${who} changed this hazard after you opened it. Delete it anyway?`
+        );
+        if (!removed) return;
+        const layer = findLayer(id);
+        if (layer) drawnItemsRef.current?.removeLayer(layer);
+        setHazards((prev) => prev.filter((h) => h.id !== id));
+        setEditing(null);
+      } catch (e) {
+        console.error(e);
+        alert("Could not delete hazard.");
+      }
+    },
+    [findLayer, resolveConflict]
+  );
+
+  // Confirm/dispute by anyone with a name; the rest by moderators
+  const reviewReport = useCallback(
+    async (id: string, action: HazardReviewAction) => {
+      try {
+        // An accepted edit may change the shape, so the layer is redrawn
+        applyRemoteHazard(await reviewHazard(id, action));
+      } catch (e: any) {
+        console.error(e);
+        const current = conflictingHazard(e);
+        if (current) applyRemoteHazard(current);
+        alert(e?.message ?? "Could not update the report.");
+      }
+    },
+    [applyRemoteHazard]
+  );
+
+  // Validity windows are judged at the chosen departure time (default: now)
+  useEffect(() => {
+    const t = window.setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(t);
   }, []);
+  const hazardTime = departAt ? Date.parse(departAt) : now;
 
-  const onEdited = useCallback(() => {
-    const all: Hazard[] = [];
-    drawnItemsRef.current?.eachLayer((layer: any) => {
-      const p = toGeoJSONPolygon(layer);
-      if (p) all.push(p);
+  useEffect(() => {
+    const byId = new Map(hazards.map((h) => [h.id, h]));
+    drawnItemsRef.current?.eachLayer((layer) => {
+      const h = byId.get(hazardIdOf(layer) ?? "");
+      if (h) styleHazardLayer(layer, h, hazardTime, showExpired);
     });
-    setHazards(all);
+  }, [hazards, hazardTime, showExpired]);
+
+  const expiredCount = useMemo(
+    () =>
+      hazards.filter((h) => isHazardExpiredAt(h.properties, hazardTime)).length,
+    [hazards, hazardTime]
+  );
+  const pendingCount = useMemo(
+    () => hazards.filter((h) => h.properties.status === "pending").length,
+    [hazards]
+  );
+  // Rejected and resolved reports are kept for the record only
+  const openHazards = useMemo(
+    () => hazards.filter((h) => !HAZARD_STATUSES[h.properties.status].closed),
+    [hazards]
+  );
+
+  const editingHazard = editing
+    ? (hazards.find((h) => h.id === editing.id) ?? null)
+    : null;
+
+  const onClearHazards = useCallback(async () => {
+    try {
+      await clearHazards();
+      setHazards([]);
+      setEditing(null);
+      drawnItemsRef.current?.clearLayers();
+    } catch (e) {
+      console.error(e);
+      alert("Could not clear hazards.");
+    }
   }, []);
 
-  const onDeleted = useCallback(() => {
-    const remaining: Hazard[] = [];
-    drawnItemsRef.current?.eachLayer((layer: any) => {
-      const p = toGeoJSONPolygon(layer);
-      if (p) remaining.push(p);
+  // Keyed by id so the minute tick doesn't rebuild avoid polygons needlessly.
+  // Only approved reports steer routes; pending ones are shown, not avoided
+  const activeIds = useMemo(
+    () =>
+      hazards
+        .filter(
+          (h) =>
+            h.properties.status === "approved" &&
+            isHazardActiveAt(h.properties, hazardTime)
+        )
+        .map((h) => h.id)
+        .join(","),
+    [hazards, hazardTime]
+  );
+  const activeHazards = useMemo(() => {
+    const ids = new Set(activeIds.split(","));
+    return hazards.filter((h) => ids.has(h.id));
+  }, [hazards, activeIds]);
+
+  // Build avoid_polygons from "block" hazards active at departure; shapes too
+  // large for ORS are tiled into compliant pieces
+  const blockingHazards = useMemo(
+    () => activeHazards.filter((h) => h.properties.avoidance !== "discourage"),
+    [activeHazards]
+  );
+  const blockingIds = useMemo(
+    () => new Set(blockingHazards.map((h) => h.id)),
+    [blockingHazards]
+  );
+  const { avoid: avoidPolygons, tiled: tiledHazards } = useMemo(
+    () => buildAvoidPolygons(blockingHazards),
+    [blockingHazards]
+  );
+  // Everything active, for a candidate that also steers clear of soft zones
+  const strictAvoidPolygons = useMemo(
+    () =>
+      activeHazards.some((h) => h.properties.avoidance === "discourage")
+        ? buildAvoidPolygons(activeHazards).avoid
+        : null,
+    [activeHazards]
+  );
+
+  /* ---------- Offline road graph (loaded once, in the background) ---------- */
+  const getOfflineGraph = useCallback(() => {
+    offlineGraphRef.current ??= loadRoadGraph(OFFLINE_ROADS_URL).catch((e) => {
+      console.warn("Offline road graph unavailable:", e);
+      return null;
     });
-    setHazards(remaining);
+    return offlineGraphRef.current;
   }, []);
+  useEffect(() => {
+    getOfflineGraph();
+  }, [getOfflineGraph]);
+
+  /* ---------- Routing (via /api/directions) ---------- */
+  const routeOptions = useMemo<RouteOptions>(
+    () => ({
+      profile,
+      language,
+      hgv: profile === "hgv" ? hgv : undefined,
+      avoidFeatures,
+    }),
+    [profile, language, hgv, avoidFeatures]
+  );
 
-  // Build avoid_polygons and filter out shapes too large for ORS
-  const avoidPolygons = useMemo<GeoJSON.MultiPolygon | null>(() => {
-    if (!hazards.length) return null;
+  // The selected candidate drives navigation, simulation and hand-off
+  const applyRoute = useCallback((result: NormalizedRoute) => {
+    setRouteProvider(result.provider);
 
-    const merged = unionHazards(hazards);
-    if (!merged) return null;
+    const coords = result.geometry;
+    setRouteLngLat(coords);
+    const latlngs = coords.map(([lng, lat]) => [
+      lat,
+      lng,
+    ]) as LatLngExpression[];
+    setRoute(latlngs);
 
-    const multi: GeoJSON.MultiPolygon =
-      merged.type === "Polygon"
-        ? {
-            type: "MultiPolygon",
-            coordinates: [merged.coordinates as number[][][]],
-          }
-        : (merged as GeoJSON.MultiPolygon);
-
-    const validPolys: number[][][][] = [];
-    const dropped: { area: number; width: number; height: number }[] = [];
-
-    for (const polyCoords of multi.coordinates) {
-      const poly = {
-        type: "Polygon",
-        coordinates: polyCoords,
-      } as GeoJSON.Polygon;
-
-      const outer = poly.coordinates[0];
-      if (!outer || outer.length < 4) continue;
-      const first = outer[0];
-      const last = outer[outer.length - 1];
-      if (first[0] !== last[0] || first[1] !== last[1]) {
-        poly.coordinates[0] = [...outer, first];
+    // Instructions keep their geometry range and time for live progress
+    const list = result.steps.map((s) => ({
+      text: s.instruction,
+      distance: s.distance,
+      duration: s.duration,
+      wayPoints: s.wayPoints,
+      leg: s.leg,
+    }));
+    setInstructions(list);
+    setSegments(result.segments);
+  }, []);
+
+  // With `from` this is a reroute: it starts there, keeps the current route
+  // on screen until the new one arrives and stays quiet on failure
+  const fetchRoute = useCallback(
+    async (from?: LatLngNum): Promise<boolean> => {
+      if (!start || !end) return false;
+
+      let via = stops;
+      if (from) {
+        // Skip stops already passed on the current route
+        if (routeLngLat && routeLngLat.length >= 2) {
+          const line = turf.lineString(routeLngLat);
+          const along = (p: LatLngNum) =>
+            turf.nearestPointOnLine(line, [p[1], p[0]]).properties.location;
+          const here = along(from);
+          via = stops.filter((s) => along(s.pos) > here);
+        }
+      } else {
+        setRoute(null);
+        setRouteLngLat(null);
+        setInstructions([]);
+        setSegments([]);
+        setRoutes([]);
+        setRerouteCount(0);
       }
 
-      const area = polygonAreaKm2(poly);
-      const { width, height } = bboxSideKm(poly);
+      const origin = from ?? (start as LatLngNum);
+      const coordinates: LngLat[] = [
+        [origin[1], origin[0]], // [lng,lat]
+        ...via.map((s): LngLat => [s.pos[1], s.pos[0]]),
+        [(end as number[])[1], (end as number[])[0]],
+      ];
 
-      if (
-        area <= ORS_MAX_AVOID_AREA_KM2 &&
-        width <= ORS_MAX_AVOID_BBOX_SIDE_KM &&
-        height <= ORS_MAX_AVOID_BBOX_SIDE_KM
-      ) {
-        validPolys.push(poly.coordinates as number[][][]);
-      } else {
-        dropped.push({ area, width, height });
+      let result: NormalizedRoute | null = null;
+      let failure: any = null;
+      if (!forceOffline) {
+        try {
+          // Long trips are split into legs, each with its nearby hazards
+          result = await planRoute(
+            coordinates,
+            avoidPolygons,
+            { ...routeOptions, alternatives: MAX_ALTERNATIVES },
+            requestDirections
+          );
+        } catch (e: any) {
+          console.error(e);
+          failure = e;
+        }
+      }
+      // Unreachable/rejecting provider (or forced): use the local road graph
+      if (!result) {
+        const graph = await getOfflineGraph();
+        result = graph && routeOffline(graph, coordinates, avoidPolygons);
+      }
+      if (!result) {
+        if (from) {
+          console.warn("Reroute failed:", failure);
+          return false;
+        }
+        alert(
+          `Routing failed: ${failure?.message ?? "no offline road data"}\n` +
+            "Try smaller hazards / shorter leg."
+        );
+        return false;
       }
-    }
 
-    if (dropped.length) {
-      console.warn("Skipped large hazards:", dropped);
-      alert(
-        `Some hazards are too large and were skipped:\n` +
-          dropped
-            .map(
-              (d, i) =>
-                `#${i + 1} area≈${d.area.toFixed(0)}km² bbox≈${d.width.toFixed(
-                  1
-                )}×${d.height.toFixed(1)}km`
+      const candidates = [result, ...(result.alternatives ?? [])];
+      // Also try keeping out of "discourage" zones entirely; it may or may not
+      // beat driving through them
+      if (strictAvoidPolygons && result.provider !== "offline") {
+        try {
+          candidates.push(
+            await planRoute(
+              coordinates,
+              strictAvoidPolygons,
+              routeOptions,
+              requestDirections
             )
-            .join("\n")
-      );
-    }
+          );
+        } catch (e) {
+          console.warn("No route clear of discouraged zones:", e);
+        }
+      }
+      const seen = new Set<string>();
+      const ranked = candidates
+        .filter((r) => {
+          const key = `${Math.round(r.summary.distance)}:${Math.round(r.summary.duration)}`;
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        })
+        .map((r) => ({ r, score: routeScore(r, activeHazards) }))
+        .sort((a, b) => a.score - b.score)
+        .map(({ r }) => r);
+
+      const best = ranked[0];
+      if (best.warnings?.length && !from) alert(best.warnings.join("\n"));
+      setRoutes(ranked);
+      setSelectedRoute(0);
+      applyRoute(best);
+      return true;
+    },
+    [
+      start,
+      end,
+      stops,
+      routeLngLat,
+      avoidPolygons,
+      strictAvoidPolygons,
+      activeHazards,
+      routeOptions,
+      forceOffline,
+      getOfflineGraph,
+      applyRoute,
+    ]
+  );
 
-    if (!validPolys.length) return null;
-    return { type: "MultiPolygon", coordinates: validPolys };
-  }, [hazards]);
+  const selectRoute = useCallback(
+    (i: number) => {
+      if (!routes[i]) return;
+      setSelectedRoute(i);
+      applyRoute(routes[i]);
+    },
+    [routes, applyRoute]
+  );
 
-  /* ---------- ORS routing ---------- */
-  const fetchRoute = useCallback(async () => {
-    if (!start || !end) return;
+  // Exposure to the hazards active at departure, per candidate route
+  const exposures = useMemo(
+    () =>
+      routes.map((r) =>
+        routeExposure(r.geometry, activeHazards, exposureRadius)
+      ),
+    [routes, activeHazards, exposureRadius]
+  );
+  const scores = useMemo(
+    () => routes.map((r) => routeScore(r, activeHazards)),
+    [routes, activeHazards]
+  );
 
-    if (avoidPolygons) {
-      const dk = approxStartEndKm(
-        start as [number, number],
-        end as [number, number]
-      );
-      if (dk > MAX_ROUTE_KM_WITH_AVOID) {
-        alert(
-          `Route too long with hazards (≈ ${dk.toFixed(
-            0
-          )} km). Try a shorter leg or fewer hazards.`
-        );
-        return;
-      }
-    }
+  // Every drawn hazard near the selected route, avoided or not
+  const encounters = useMemo(
+    () =>
+      routeLngLat
+        ? hazardEncounters(routeLngLat, openHazards, exposureRadius)
+        : [],
+    [routeLngLat, openHazards, exposureRadius]
+  );
+  const hazardsById = useMemo(
+    () => new Map(hazards.map((h) => [h.id, h])),
+    [hazards]
+  );
 
-    setRoute(null);
-    setRouteLngLat(null);
-    setInstructions([]);
+  const exportReport = useCallback(() => {
+    const csv = encountersCsv(encounters, hazards, hazardTime);
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadText(`route-hazards-${stamp}.csv`, "text/csv", csv);
+  }, [encounters, hazards, hazardTime]);
 
-    const body = {
-      coordinates: [
-        [(start as number[])[1], (start as number[])[0]], // [lng,lat]
-        [(end as number[])[1], (end as number[])[0]],
-      ],
-      elevation: false,
-      instructions: true,
-      options: {
-        avoid_polygons: avoidPolygons || undefined,
-        avoid_features: [] as string[],
+  /* ---------- Stops ---------- */
+  const addStop = useCallback((pos: LatLngNum, label?: string) => {
+    setStops((prev) => [
+      ...prev,
+      {
+        id: newWaypointId(),
+        pos,
+        label: label ?? `${pos[0].toFixed(5)}, ${pos[1].toFixed(5)}`,
       },
-    };
+    ]);
+  }, []);
 
-    const res = await fetch(
-      "https://api.openrouteservice.org/v2/directions/driving-car/geojson",
-      {
-        method: "POST",
-        headers: {
-          Authorization: process.env.NEXT_PUBLIC_ORS_KEY || "",
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(body),
+  const moveStop = useCallback((index: number, delta: number) => {
+    setStops((prev) => {
+      const to = index + delta;
+      if (to < 0 || to >= prev.length) return prev;
+      const next = prev.slice();
+      [next[index], next[to]] = [next[to], next[index]];
+      return next;
+    });
+  }, []);
+
+  const optimiseStops = useCallback(() => {
+    if (!start || !end) return;
+    setStops((prev) =>
+      optimiseStopOrder(start as LatLngNum, prev, end as LatLngNum)
+    );
+  }, [start, end]);
+
+  /* ---------- Turn-by-turn progress (from each GPS/simulated fix) ---------- */
+  const routeCumulative = useMemo(
+    () => (routeLngLat ? cumulativeMeters(routeLngLat) : []),
+    [routeLngLat]
+  );
+  const progress = useMemo(
+    () =>
+      userPos && routeLngLat
+        ? routeProgress(
+            routeLngLat,
+            routeCumulative,
+            instructions,
+            [userPos[1], userPos[0]],
+            userAlong?.route === routeLngLat ? userAlong.meters : null
+          )
+        : null,
+    [userPos, userAlong, routeLngLat, routeCumulative, instructions]
+  );
+  const nextStep = progress ? instructions[progress.step + 1] : undefined;
+  const stepFrom = progress?.step ?? 0; // first step listed in the panel
+
+  /* ---------- Voice guidance ---------- */
+  const guiding = navigating || simulateOn;
+  const say = useCallback(
+    (text: string) => {
+      if (voiceOn) speak(text, { language, volume: voiceVolume });
+    },
+    [voiceOn, language, voiceVolume]
+  );
+
+  useEffect(() => {
+    spokenRef.current.clear();
+  }, [routeLngLat]);
+  useEffect(() => {
+    if (!voiceOn) stopSpeaking();
+  }, [voiceOn]);
+
+  // Upcoming manoeuvre, once per threshold; arrival once
+  useEffect(() => {
+    if (!guiding || !progress) return;
+    const spoken = spokenRef.current;
+    const p = phrases(language);
+    if (!nextStep) {
+      if (progress.remainingMeters < 30 && !spoken.has("arrived")) {
+        spoken.add("arrived");
+        say(p.arrived);
       }
+      return;
+    }
+    const due = ANNOUNCE_PRESETS[announceAt].meters.filter(
+      (m) => progress.toNextMeters <= m && !spoken.has(`${progress.step}:${m}`)
     );
+    if (!due.length) return;
+    due.forEach((m) => spoken.add(`${progress.step}:${m}`));
+    const d = progress.toNextMeters;
+    say(
+      d < 40
+        ? `${p.now}: ${nextStep.text}`
+        : `${p.in(spokenDistance(d, language))}: ${nextStep.text}`
+    );
+  }, [guiding, progress, nextStep, announceAt, language, say]);
 
-    if (!res.ok) {
-      console.error(await res.text());
-      alert(
-        "Routing failed (bad request or limits). Try smaller hazards / shorter leg."
+  // Hazards on the route ahead, announced with their category; like the
+  // visual alerts, only approved ones in force right now
+  useEffect(() => {
+    if (!guiding || !progress) return;
+    const warnAt = Math.max(...ANNOUNCE_PRESETS[announceAt].meters);
+    const p = phrases(language);
+    const t = Date.now();
+    for (const e of encounters) {
+      const ahead = e.atMeters - progress.alongMeters;
+      const key = `hazard:${e.hazardId}`;
+      if (ahead < 0 || ahead > warnAt || spokenRef.current.has(key)) continue;
+      const h = hazardsById.get(e.hazardId);
+      if (!h || h.properties.status !== "approved") continue;
+      if (!isHazardActiveAt(h.properties, t)) continue;
+      spokenRef.current.add(key);
+      say(
+        p.hazardAhead(
+          p.categories[h.properties.category] ?? p.categories.other,
+          spokenDistance(ahead, language)
+        )
       );
-      return;
     }
+  }, [guiding, progress, encounters, hazardsById, announceAt, language, say]);
 
-    const geo = await res.json();
-    const coords = (geo.features?.[0]?.geometry?.coordinates ?? []) as LngLat[];
-    setRouteLngLat(coords);
-    const latlngs = coords.map(([lng, lat]) => [
-      lat,
-      lng,
-    ]) as LatLngExpression[];
-    setRoute(latlngs);
+  /* ---------- Proximity alerts ---------- */
+  const encounterById = useMemo(
+    () => new Map(encounters.map((e) => [e.hazardId, e])),
+    [encounters]
+  );
+  const resetHazardAlerts = useCallback(() => {
+    alertedRef.current.clear();
+    setHazardAlerts([]);
+    setRouteHazardNotice(null);
+  }, []);
 
-    // Basic instructions list (segment 0)
-    const steps =
-      geo.features?.[0]?.properties?.segments?.[0]?.steps ??
-      geo.features?.[0]?.properties?.segments?.[0]?.steps ??
-      [];
-    const list = steps.map((s: any) => ({
-      text: s.instruction as string,
-      distance: s.distance as number,
-    }));
-    setInstructions(list);
-  }, [start, end, avoidPolygons]);
+  // Looks ahead from the current position on every fix; hazards drawn after
+  // the route was computed are included since encounters follow the hazards
+  useEffect(() => {
+    if (!guiding || !progress) return;
+    const t = Date.now();
+    const fresh = encounters
+      .filter((e) => {
+        const ahead = e.atMeters - progress.alongMeters;
+        const h = hazardsById.get(e.hazardId);
+        return (
+          h &&
+          ahead >= 0 &&
+          ahead <= alertAheadMeters &&
+          h.properties.status === "approved" &&
+          isHazardActiveAt(h.properties, t) &&
+          !alertedRef.current.has(e.hazardId)
+        );
+      })
+      .map((e) => hazardsById.get(e.hazardId)!);
+    if (!fresh.length) return;
+    fresh.forEach((h) => alertedRef.current.add(h.id));
+    setHazardAlerts((prev) => [...prev, ...fresh.map((h) => h.id)]);
+    const worst = fresh.reduce((a, b) =>
+      HAZARD_SEVERITIES[b.properties.severity].weight >
+      HAZARD_SEVERITIES[a.properties.severity].weight
+        ? b
+        : a
+    );
+    navigator.vibrate?.(ALERT_VIBRATION[worst.properties.severity]);
+  }, [guiding, progress, encounters, hazardsById, alertAheadMeters]);
+
+  /* ---------- Live changes from other editors ---------- */
+  const noteActivity = useCallback((text: string) => {
+    setActivity((prev) =>
+      [{ text, at: Date.now() }, ...prev].slice(0, MAX_ACTIVITY)
+    );
+  }, []);
+
+  const onHazardEvent = useCallback(
+    (event: HazardEvent) => {
+      const who = event.by || "Someone";
+      if (event.type === "clear") {
+        drawnItemsRef.current?.clearLayers();
+        setHazards([]);
+        setEditing(null);
+        noteActivity(`${who} cleared all hazards`);
+        return;
+      }
+      if (event.type === "delete") {
+        const old = hazardsById.get(event.id);
+        removeRemoteHazard(event.id);
+        noteActivity(
+          `${who} deleted ${old ? `“${hazardLabel(old)}”` : "a hazard"}`
+        );
+        return;
+      }
+
+      const { hazard, action } = event;
+      const old = hazardsById.get(hazard.id);
+      applyRemoteHazard(hazard);
+      const verb = action
+        ? HAZARD_REVIEW_ACTIONS[action].past
+        : old
+          ? "updated"
+          : "reported";
+      noteActivity(`${who} ${verb} “${hazardLabel(hazard)}”`);
+
+      // Only a new, reshaped or just approved hazard can newly cross the
+      // route ahead
+      if (!guiding || !routeLngLat) return;
+      if (
+        old &&
+        sameGeometry(old.geometry, hazard.geometry) &&
+        !(action === "approve" && old.properties.status !== "approved")
+      )
+        return;
+      if (HAZARD_STATUSES[hazard.properties.status].closed) return;
+      if (!isHazardActiveAt(hazard.properties, Date.now())) return;
+      const [e] = hazardEncounters(routeLngLat, [hazard], exposureRadius);
+      if (!e || e.atMeters < (progress?.alongMeters ?? 0)) return;
+      setRouteHazardNotice({ id: hazard.id, by: who });
+      const p = phrases(language);
+      say(
+        p.newHazardOnRoute(
+          p.categories[hazard.properties.category] ?? p.categories.other
+        )
+      );
+    },
+    [
+      hazardsById,
+      applyRemoteHazard,
+      removeRemoteHazard,
+      noteActivity,
+      guiding,
+      routeLngLat,
+      exposureRadius,
+      progress,
+      language,
+      say,
+    ]
+  );
+  const onHazardEventRef = useRef(onHazardEvent);
+  useEffect(() => {
+    onHazardEventRef.current = onHazardEvent;
+  }, [onHazardEvent]);
+
+  // Subscribed once the initial set is on the map; every (re)connect
+  // resyncs, so nothing sent while disconnected is lost
+  useEffect(() => {
+    if (!hazardsLoaded) return;
+    return subscribeHazardEvents(
+      (event) => onHazardEventRef.current(event),
+      () => listHazards().then(syncHazards).catch(console.error)
+    );
+  }, [hazardsLoaded, syncHazards]);
+
+  // Off-route, once per departure from the route
+  useEffect(() => {
+    if (!offRoute) spokenRef.current.delete("offRoute");
+    else if (guiding && !spokenRef.current.has("offRoute")) {
+      spokenRef.current.add("offRoute");
+      say(phrases(language).offRoute);
+    }
+  }, [guiding, offRoute, language, say]);
+
+  /* ---------- Automatic rerouting ---------- */
+  // Needs REROUTE_AFTER_FIXES off-route fixes in a row, at most one reroute
+  // per cooldown, and never two at once
+  const rerouteFrom = useCallback(
+    async (pos: LatLngNum) => {
+      if (rerouteInFlightRef.current) return;
+      if (Date.now() - lastRerouteAtRef.current < REROUTE_COOLDOWN_MS) return;
+      rerouteInFlightRef.current = true;
+      lastRerouteAtRef.current = Date.now();
+      setRerouting(true);
+      try {
+        if (await fetchRoute(pos)) {
+          setRerouteCount((n) => n + 1);
+          offRouteFixesRef.current = 0;
+          simDistMRef.current = 0; // the new route starts here
+          simVeerRef.current = null;
+        }
+      } finally {
+        rerouteInFlightRef.current = false;
+        setRerouting(false);
+      }
+    },
+    [fetchRoute]
+  );
 
   /* ---------- Off-route compute (shared) ---------- */
+  // `matchedMeters` comes from route snapping; without it the straight
+  // distance to the nearest part of the route is used
   const computeOffRoute = useCallback(
-    (pos: LatLngNum) => {
+    (pos: LatLngNum, matchedMeters?: number) => {
       if (!routeLngLat || routeLngLat.length < 2) {
         setOffRoute(false);
         setOffRouteMeters(0);
         return;
       }
-      const line = turf.lineString(routeLngLat);
-      const pt = turf.point([pos[1], pos[0]]);
-      const d = turf.pointToLineDistance(pt, line, { units: "meters" });
+      const d =
+        matchedMeters ??
+        turf.pointToLineDistance(
+          turf.point([pos[1], pos[0]]),
+          turf.lineString(routeLngLat),
+          { units: "meters" }
+        );
+      const off = d > OFF_ROUTE_THRESHOLD_M;
       setOffRouteMeters(d);
-      setOffRoute(d > OFF_ROUTE_THRESHOLD_M);
+      setOffRoute(off);
+      offRouteFixesRef.current = off ? offRouteFixesRef.current + 1 : 0;
+      if (autoReroute && offRouteFixesRef.current >= REROUTE_AFTER_FIXES)
+        rerouteFrom(pos);
     },
-    [routeLngLat]
+    [routeLngLat, autoReroute, rerouteFrom]
   );
+  // GPS and simulation callbacks outlive renders; always run the latest
+  const computeOffRouteRef = useRef(computeOffRoute);
+  useEffect(() => {
+    computeOffRouteRef.current = computeOffRoute;
+  }, [computeOffRoute]);
   const debouncedComputeOffRoute = useMemo(
-    () => debounce(computeOffRoute, 400),
-    [computeOffRoute]
+    () =>
+      debounce(
+        (pos: LatLngNum, matchedMeters?: number) =>
+          computeOffRouteRef.current(pos, matchedMeters),
+        400
+      ),
+    []
   );
 
+  /* ---------- Position filtering & route snapping ---------- */
+  const positionFilterRef = useRef(createPositionFilter());
+  const routeMatcher = useMemo(
+    () => createRouteMatcher(routeLngLat ?? []),
+    [routeLngLat]
+  );
+  const resetTracking = useCallback(() => {
+    positionFilterRef.current.reset();
+    routeMatcher.reset();
+  }, [routeMatcher]);
+
+  // Raw fix -> where to draw the marker and what to judge off-route by: the
+  // matched point on the route while it is close enough, else the filtered fix
+  const trackFix = useCallback(
+    (fix: TraceFix) => {
+      const raw: LatLngNum = [fix.lat, fix.lng];
+      if (!smoothGps) return { shown: raw, pos: raw };
+      const f = positionFilterRef.current.update(fix);
+      const pos: LatLngNum = [f.position[1], f.position[0]];
+      const m = routeMatcher.match(f, OFF_ROUTE_THRESHOLD_M);
+      if (!m) return { shown: pos, pos };
+      const onRoute = m.offsetMeters <= OFF_ROUTE_THRESHOLD_M;
+      return {
+        shown: onRoute ? ([m.point[1], m.point[0]] as LatLngNum) : pos,
+        pos,
+        matchedMeters: m.offsetMeters,
+        along:
+          onRoute && routeLngLat
+            ? { meters: m.alongMeters, route: routeLngLat }
+            : undefined,
+      };
+    },
+    [smoothGps, routeMatcher, routeLngLat]
+  );
+  const trackFixRef = useRef(trackFix);
+  useEffect(() => {
+    trackFixRef.current = trackFix;
+  }, [trackFix]);
+
   /* ---------- Realtime Navigation (REAL GPS) ---------- */
   const startNavigation = useCallback(async () => {
     if (!routeLngLat || routeLngLat.length < 2) {
@@ -557,15 +1744,37 @@ export default function LeafletHazardMap() {
       return;
     }
     if (watchIdRef.current != null) return;
+    resetHazardAlerts();
+    resetTracking();
+    recordedRef.current = [];
+    setRecordedCount(0);
     try {
       // @ts-ignore
       wakeLockRef.current = await navigator.wakeLock?.request?.("screen");
     } catch {}
     watchIdRef.current = navigator.geolocation.watchPosition(
-      ({ coords }) => {
-        const here: LatLngNum = [coords.latitude, coords.longitude];
+      ({ coords, timestamp }) => {
+        const fix: TraceFix = {
+          time: timestamp,
+          lat: coords.latitude,
+          lng: coords.longitude,
+          accuracy: coords.accuracy,
+          speed: Number.isFinite(coords.speed) ? coords.speed! : undefined,
+          heading: Number.isFinite(coords.heading)
+            ? coords.heading!
+            : undefined,
+        };
+        recordedRef.current.push(fix);
+        setRecordedCount(recordedRef.current.length);
+        const {
+          shown: here,
+          pos,
+          matchedMeters,
+          along,
+        } = trackFixRef.current(fix);
         setUserPos(here);
-        debouncedComputeOffRoute(here);
+        setUserAlong(along ?? null);
+        debouncedComputeOffRoute(pos, matchedMeters);
         if (mapRef.current)
           mapRef.current.setView(here, Math.max(mapRef.current.getZoom(), 14), {
             animate: true,
@@ -579,7 +1788,13 @@ export default function LeafletHazardMap() {
       { enableHighAccuracy: true, maximumAge: 1000, timeout: 10000 }
     );
     setNavigating(true);
-  }, [routeLngLat, debouncedComputeOffRoute, simulateOn]);
+  }, [
+    routeLngLat,
+    debouncedComputeOffRoute,
+    simulateOn,
+    resetHazardAlerts,
+    resetTracking,
+  ]);
 
   const stopNavigation = useCallback(() => {
     if (watchIdRef.current != null) {
@@ -591,44 +1806,100 @@ export default function LeafletHazardMap() {
     } catch {}
     wakeLockRef.current = null;
     setNavigating(false);
+    stopSpeaking();
     setUserPos(null);
+    setUserAlong(null);
     setOffRoute(false);
     setOffRouteMeters(0);
+    offRouteFixesRef.current = 0;
   }, []);
 
   /* ---------- Realtime Navigation (SIMULATION) ---------- */
+  const simulator = useMemo(
+    () =>
+      routeLngLat && routeLngLat.length >= 2
+        ? createSimulator(routeLngLat, instructions)
+        : null,
+    [routeLngLat, instructions]
+  );
+
+  // Emits one (possibly noisy or dropped) fix into the same flow as real GPS
+  const emitSimFix = useCallback(
+    (dtSeconds: number, speed: number) => {
+      if (!simulator) return;
+      simClockRef.current += dtSeconds * 1000;
+      const veer = simVeerRef.current;
+      let truth: LngLat;
+      let heading: number;
+      if (veer) {
+        truth = offsetPoint(
+          veer.from,
+          simDistMRef.current - veer.atM,
+          veer.bearing
+        );
+        heading = veer.bearing;
+      } else {
+        const { point, bearing } = simulator.pointAt(simDistMRef.current);
+        truth = offsetPoint(point, simOffsetM, bearing + 90);
+        heading = bearing;
+      }
+      const noisy = noisyFix(truth, simNoise, simDriftRef.current, dtSeconds);
+      if (!noisy) return; // dropout
+      const {
+        shown: here,
+        pos,
+        matchedMeters,
+        along,
+      } = trackFix({
+        time: simClockRef.current,
+        lat: noisy[1],
+        lng: noisy[0],
+        accuracy: Math.max(5, simNoise.jitterM + simNoise.driftM),
+        speed,
+        heading: (heading + 360) % 360,
+      });
+      setUserPos(here);
+      setUserAlong(along ?? null);
+      computeOffRoute(pos, matchedMeters);
+      if (mapRef.current) {
+        mapRef.current.setView(here, Math.max(mapRef.current.getZoom(), 14), {
+          animate: true,
+        });
+      }
+    },
+    [simulator, simOffsetM, simNoise, trackFix, computeOffRoute]
+  );
+
   const stepSimulation = useCallback(() => {
-    if (!routeLngLat || routeLngLat.length < 2) return;
-    const line = turf.lineString(routeLngLat);
-    const totalKm = turf.length(line, { units: "kilometers" });
-
-    // advance distance: tick = 500ms
-    const dtSeconds = 0.5;
-    const dvKm = (simSpeedKmh / 3600) * dtSeconds;
-    simDistKmRef.current += dvKm;
-
-    // stop when finished
-    if (simDistKmRef.current >= totalKm) {
-      simDistKmRef.current = totalKm;
+    const now = performance.now();
+    const dtSeconds = ((now - simLastTickRef.current) / 1000) * simMultiplier;
+    simLastTickRef.current = now;
+    if (!simulator || simPaused) return;
+
+    // Fixed speed, or the step's own distance / duration
+    const speed = simSpeedKmh
+      ? simSpeedKmh / 3.6
+      : (simulator.speedAt(simDistMRef.current) ??
+        TRAVEL_PROFILES[profile].speedKmh / 3.6);
+    simDistMRef.current += speed * dtSeconds;
+
+    // stop when finished (a veered-off run goes on until stopped or rerouted)
+    if (!simVeerRef.current && simDistMRef.current >= simulator.totalMeters) {
+      simDistMRef.current = simulator.totalMeters;
       if (simTimerRef.current) {
         clearInterval(simTimerRef.current);
         simTimerRef.current = null;
       }
       setSimulateOn(false);
     }
-
-    // compute position and feed into same flow as real GPS
-    const pt = turf.along(line, simDistKmRef.current, { units: "kilometers" });
-    const [lng, lat] = pt.geometry.coordinates as [number, number];
-    const here: [number, number] = [lat, lng];
-    setUserPos(here);
-    computeOffRoute(here);
-    if (mapRef.current) {
-      mapRef.current.setView(here, Math.max(mapRef.current.getZoom(), 14), {
-        animate: true,
-      });
-    }
-  }, [routeLngLat, simSpeedKmh, computeOffRoute]);
+    setSimDistM(simDistMRef.current);
+    emitSimFix(dtSeconds, speed);
+  }, [simulator, simPaused, simMultiplier, simSpeedKmh, profile, emitSimFix]);
+  // The interval runs the latest step, so a reroute takes effect mid-run
+  const stepSimulationRef = useRef(stepSimulation);
+  useEffect(() => {
+    stepSimulationRef.current = stepSimulation;
+  }, [stepSimulation]);
 
   const startSimulation = useCallback(() => {
     if (!routeLngLat || routeLngLat.length < 2) {
@@ -639,23 +1910,128 @@ export default function LeafletHazardMap() {
       alert("Stop real navigation first.");
       return;
     }
-    simDistKmRef.current = 0;
+    simDistMRef.current = 0;
+    simVeerRef.current = null;
+    simDriftRef.current = { e: 0, n: 0 };
+    simClockRef.current = Date.now();
+    simLastTickRef.current = performance.now();
+    setSimDistM(0);
+    setSimPaused(false);
+    if (replayTimerRef.current) clearTimeout(replayTimerRef.current);
+    replayTimerRef.current = null;
+    setReplaying(false);
+    resetHazardAlerts();
+    resetTracking();
     setSimulateOn(true);
     if (simTimerRef.current) clearInterval(simTimerRef.current);
     simTimerRef.current = window.setInterval(
-      stepSimulation,
-      500
+      () => stepSimulationRef.current(),
+      SIM_TICK_MS
     ) as unknown as number;
-  }, [routeLngLat, navigating, stepSimulation]);
+  }, [routeLngLat, navigating, resetHazardAlerts, resetTracking]);
 
   const stopSimulation = useCallback(() => {
     if (simTimerRef.current) {
       clearInterval(simTimerRef.current);
       simTimerRef.current = null;
     }
-    setSimulateOn(false);
+    if (replayTimerRef.current) {
+      clearTimeout(replayTimerRef.current);
+      replayTimerRef.current = null;
+    }
+    setSimulateOn(false);
+    setReplaying(false);
+    setSimPaused(false);
+    stopSpeaking();
+  }, []);
+
+  const seekSimulation = useCallback(
+    (meters: number) => {
+      simDistMRef.current = meters;
+      simVeerRef.current = null;
+      setSimDistM(meters);
+      resetTracking();
+      if (simPaused) emitSimFix(0, 0);
+    },
+    [simPaused, emitSimFix, resetTracking]
+  );
+
+  // Leaves the route at an angle, as if a turn was missed
+  const veerOff = useCallback(() => {
+    if (!simulator) return;
+    const { point, bearing } = simulator.pointAt(simDistMRef.current);
+    simVeerRef.current = {
+      from: offsetPoint(point, simOffsetM, bearing + 90),
+      bearing: bearing + 45,
+      atM: simDistMRef.current,
+    };
+  }, [simulator, simOffsetM]);
+
+  /* ---------- Trace recording & replay ---------- */
+  const downloadTrace = useCallback(() => {
+    const fixes = recordedRef.current;
+    if (!fixes.length) return;
+    const stamp = new Date(fixes[0].time).toISOString().slice(0, 19);
+    downloadText(
+      `trace-${stamp.replace(/:/g, "")}.gpx`,
+      "application/gpx+xml",
+      traceToGpx(fixes, `Navigation ${stamp}`)
+    );
+  }, []);
+
+  const loadTrace = useCallback(async (file: File) => {
+    try {
+      setReplayTrace(await readTraceFile(file));
+    } catch (e: any) {
+      console.error(e);
+      alert(e?.message || `Could not read ${file.name}.`);
+    }
   }, []);
 
+  // Replays fixes with their original spacing (divided by the speed-up),
+  // through the same position and off-route path as real GPS
+  const startReplay = useCallback(() => {
+    if (!replayTrace?.length) return;
+    if (navigating) {
+      alert("Stop real navigation first.");
+      return;
+    }
+    if (simTimerRef.current) clearInterval(simTimerRef.current);
+    simTimerRef.current = null;
+    resetHazardAlerts();
+    resetTracking();
+    setSimulateOn(true);
+    setReplaying(true);
+    let i = 0;
+    const next = () => {
+      const fix = replayTrace[i];
+      const {
+        shown: here,
+        pos,
+        matchedMeters,
+        along,
+      } = trackFixRef.current(fix);
+      setUserPos(here);
+      setUserAlong(along ?? null);
+      computeOffRouteRef.current(pos, matchedMeters);
+      if (mapRef.current)
+        mapRef.current.setView(here, Math.max(mapRef.current.getZoom(), 14), {
+          animate: true,
+        });
+      if (++i >= replayTrace.length) {
+        replayTimerRef.current = null;
+        setSimulateOn(false);
+        setReplaying(false);
+        return;
+      }
+      replayTimerRef.current = window.setTimeout(
+        next,
+        (replayTrace[i].time - fix.time) / replaySpeed
+      );
+    };
+    next();
+  }, [replayTrace, replaySpeed, navigating, resetHazardAlerts, resetTracking]);
+
   useEffect(() => {
     return () => {
       stopNavigation();
@@ -663,6 +2039,54 @@ export default function LeafletHazardMap() {
     };
   }, [stopNavigation, stopSimulation]);
 
+  /* ---------- Hand-off to other apps ---------- */
+  useEffect(() => {
+    setHandOffNote(null);
+  }, [routeLngLat]);
+
+  // Fetched without hazards once per route, on the first hand-off
+  const detoursRef = useRef<{ route: LngLat[]; detours: Detour[] } | null>(
+    null
+  );
+  const routeDetours = useCallback(async (): Promise<Detour[]> => {
+    if (!routeLngLat || !start || !end) return [];
+    if (detoursRef.current?.route === routeLngLat)
+      return detoursRef.current.detours;
+    let detours: Detour[];
+    try {
+      const shortest = await requestDirections({
+        coordinates: [
+          start as LatLngNum,
+          ...stops.map((s) => s.pos),
+          end as LatLngNum,
+        ].map((p): LngLat => [p[1], p[0]]),
+        avoidPolygons: null,
+        options: { ...routeOptions, alternatives: 0 },
+      });
+      detours = findDetours(routeLngLat, shortest.geometry);
+    } catch (e) {
+      // Nothing to compare with: pass each hazard the route skirts instead
+      console.warn("Shortest route unavailable for hand-off:", e);
+      detours = encounters
+        .filter((e) => !e.crosses)
+        .map((e) => ({
+          point: e.point,
+          alongMeters: e.atMeters,
+          deviationMeters: exposureRadius - e.closestMeters,
+        }));
+    }
+    detoursRef.current = { route: routeLngLat, detours };
+    return detours;
+  }, [
+    routeLngLat,
+    start,
+    end,
+    stops,
+    routeOptions,
+    encounters,
+    exposureRadius,
+  ]);
+
   /* ---------- Buttons (Tailwind-only) ---------- */
   const btnBase =
     "inline-flex items-center justify-center gap-2 rounded-md text-sm font-medium " +
@@ -679,13 +2103,43 @@ export default function LeafletHazardMap() {
   const activeRing = "ring-2 ring-sky-500";
 
   const canHandOff = !!(start && end && routeLngLat && routeLngLat.length >= 2);
-  const handleHandOff = () => {
+  const handleHandOff = async (target: HandOffTarget) => {
     if (!canHandOff) return;
+    // Opened before awaiting so popup blockers still see the click
+    const win = window.open("about:blank", "_blank");
+    if (win) win.opener = null;
     const origin = { lat: (start as number[])[0], lng: (start as number[])[1] };
     const dest = { lat: (end as number[])[0], lng: (end as number[])[1] };
-    const via = simplifyAndSampleWaypoints(routeLngLat!, 8);
-    const trimmed = via.slice(1, Math.max(1, via.length - 1));
-    openGMaps(origin, dest, trimmed);
+    const line = turf.lineString(routeLngLat!);
+    const stopVia = stops.map((s) => {
+      const point: LngLat = [s.pos[1], s.pos[0]];
+      return {
+        point,
+        alongMeters: turf.nearestPointOnLine(line, point, { units: "meters" })
+          .properties.location,
+      };
+    });
+    const app = HANDOFF_TARGETS[target];
+    const { via, missedStops, missedDetours } = pickVias(
+      stopVia,
+      await routeDetours(),
+      app.maxVia
+    );
+    const url = app.url(origin, dest, via, profile);
+    if (win) win.location.href = url;
+    else window.open(url, "_blank", "noopener,noreferrer");
+
+    const missed = [
+      missedStops && `${missedStops} stop(s)`,
+      missedDetours && `${missedDetours} detour(s) around hazards`,
+    ].filter(Boolean);
+    setHandOffNote(
+      missed.length
+        ? `${app.label} takes ${app.maxVia} via points: ${missed.join(
+            " and "
+          )} not covered, so it may route differently.`
+        : null
+    );
   };
 
   /* -------------------- UI -------------------- */
@@ -718,6 +2172,13 @@ export default function LeafletHazardMap() {
             >
               Navigate Mode
             </button>
+            <button
+              className={`${btnGhost} px-3 py-2`}
+              onClick={copyShareLink}
+              title="Copy a link to these endpoints, hazards and settings"
+            >
+              Copy link
+            </button>
           </div>
 
           {/* HAZARD MODE CONTROLS */}
@@ -755,18 +2216,149 @@ export default function LeafletHazardMap() {
                   className="w-40 accent-sky-500"
                 />
 
+                <select
+                  className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm dark:bg-neutral-900 dark:border-neutral-700"
+                  value={newCategory}
+                  onChange={(e) =>
+                    setNewCategory(e.target.value as HazardCategory)
+                  }
+                  title="Category for new hazards"
+                >
+                  {Object.entries(HAZARD_CATEGORIES).map(([key, c]) => (
+                    <option key={key} value={key}>
+                      {c.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm dark:bg-neutral-900 dark:border-neutral-700"
+                  value={newSeverity}
+                  onChange={(e) =>
+                    setNewSeverity(e.target.value as HazardSeverity)
+                  }
+                  title="Severity for new hazards"
+                >
+                  {Object.entries(HAZARD_SEVERITIES).map(([key, sev]) => (
+                    <option key={key} value={key}>
+                      {sev.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm dark:bg-neutral-900 dark:border-neutral-700"
+                  value={newAvoidance}
+                  onChange={(e) =>
+                    setNewAvoidance(e.target.value as HazardAvoidance)
+                  }
+                  title="Block: never route through. Discourage: allowed at a cost."
+                >
+                  {Object.entries(HAZARD_AVOIDANCE).map(([key, a]) => (
+                    <option key={key} value={key}>
+                      {a.label}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  value={reporter}
+                  onChange={(e) => setReporter(e.target.value)}
+                  placeholder="Your name"
+                  className="w-32 rounded-md border border-gray-300 px-2 py-1 text-sm bg-white dark:bg-neutral-900 dark:border-neutral-700"
+                />
+                {moderation && !moderation.configured ? (
+                  <span
+                    className="text-xs text-gray-500"
+                    title="No MODERATOR_KEYS are set on the server, so reports can't be approved"
+                  >
+                    Moderation off: reports stay pending
+                  </span>
+                ) : (
+                  moderation && (
+                    <input
+                      type="password"
+                      value={moderatorKey}
+                      onChange={(e) => setModeratorKeyText(e.target.value)}
+                      placeholder="Moderator key"
+                      title={
+                        canModerate
+                          ? "Moderator: you can approve, reject, resolve and delete reports"
+                          : "Moderators approve, reject and resolve reports, and accept edits to reviewed ones"
+                      }
+                      className={`w-32 rounded-md border px-2 py-1 text-sm bg-white dark:bg-neutral-900 ${
+                        canModerate
+                          ? "border-green-500"
+                          : "border-gray-300 dark:border-neutral-700"
+                      }`}
+                    />
+                  )
+                )}
+
                 <button
-                  className={`${btnGhost} px-3 py-2`}
-                  onClick={() => {
-                    setHazards([]);
-                    drawnItemsRef.current?.clearLayers();
+                  className={`${btnOutline} px-3 py-2`}
+                  onClick={() => fileInputRef.current?.click()}
+                  title="Import GeoJSON, KML or GPX (or drop a file on the map)"
+                >
+                  Import…
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".geojson,.json,.kml,.gpx"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    if (e.target.files?.length) importFiles(e.target.files);
+                    e.target.value = "";
                   }}
+                />
+                <select
+                  className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm dark:bg-neutral-900 dark:border-neutral-700"
+                  value=""
+                  onChange={(e) =>
+                    exportHazards(e.target.value as HazardFileFormat)
+                  }
+                >
+                  <option value="" disabled>
+                    Export…
+                  </option>
+                  <option value="geojson">GeoJSON</option>
+                  <option value="kml">KML</option>
+                  <option value="gpx">GPX</option>
+                </select>
+
+                <label className="inline-flex items-center gap-1 text-xs text-gray-600 dark:text-neutral-300">
+                  <input
+                    type="checkbox"
+                    checked={showExpired}
+                    onChange={(e) => setShowExpired(e.target.checked)}
+                    className="accent-sky-500"
+                  />
+                  Show expired & closed
+                </label>
+
+                <button
+                  className={`${btnGhost} px-3 py-2`}
+                  onClick={onClearHazards}
+                  disabled={!canModerate}
+                  title={canModerate ? undefined : "Only moderators can clear"}
                 >
                   Clear Hazards
                 </button>
               </div>
               <div className="text-xs text-gray-600 dark:text-neutral-300">
                 Hazards: <span className="font-semibold">{hazards.length}</span>
+                {expiredCount > 0 && ` (${expiredCount} expired)`}
+                {pendingCount > 0 && ` · ${pendingCount} awaiting review`}
+                {tiledHazards.length > 0 && (
+                  <div
+                    className="text-amber-700 dark:text-amber-400"
+                    title="Too large for the routing service in one piece"
+                  >
+                    Tiled for routing:{" "}
+                    {tiledHazards
+                      .map((t) => `${t.label} → ${t.pieces} pieces`)
+                      .join(", ")}
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -795,7 +2387,71 @@ export default function LeafletHazardMap() {
                     mapRef.current?.setView(coord, 14);
                   }}
                 />
+                <SearchBox
+                  placeholder="Add a stop"
+                  value=""
+                  onPick={(coord, label) => {
+                    addStop(coord, label);
+                    mapRef.current?.setView(coord, 14);
+                  }}
+                />
               </div>
+              {stops.length > 0 && (
+                <div className="flex flex-col gap-1 text-xs text-gray-700 dark:text-neutral-200">
+                  {stops.map((s, i) => (
+                    <div key={s.id} className="flex items-center gap-1">
+                      <span className="inline-flex h-5 w-5 items-center justify-center rounded-full bg-sky-500 text-[10px] font-semibold text-white">
+                        {i + 1}
+                      </span>
+                      <span className="flex-1 truncate" title={s.label}>
+                        {s.label}
+                      </span>
+                      <button
+                        className={`${btnGhost} px-1.5 py-0.5`}
+                        disabled={i === 0}
+                        onClick={() => moveStop(i, -1)}
+                        title="Move up"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        className={`${btnGhost} px-1.5 py-0.5`}
+                        disabled={i === stops.length - 1}
+                        onClick={() => moveStop(i, 1)}
+                        title="Move down"
+                      >
+                        ↓
+                      </button>
+                      <button
+                        className={`${btnGhost} px-1.5 py-0.5`}
+                        onClick={() =>
+                          setStops((prev) => prev.filter((w) => w.id !== s.id))
+                        }
+                        title="Remove stop"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                  <div className="flex items-center gap-2">
+                    {stops.length > 1 && (
+                      <button
+                        className={`${btnOutline} px-2 py-1`}
+                        onClick={optimiseStops}
+                        title="Reorder stops for the shortest straight-line tour"
+                      >
+                        Optimise order
+                      </button>
+                    )}
+                    <button
+                      className={`${btnGhost} px-2 py-1`}
+                      onClick={() => setStops([])}
+                    >
+                      Clear stops
+                    </button>
+                  </div>
+                </div>
+              )}
               <div className="flex items-center gap-2 flex-wrap">
                 <button
                   className={`${btnOutline} px-3 py-2`}
@@ -815,6 +2471,17 @@ export default function LeafletHazardMap() {
                 >
                   Set End on Map
                 </button>
+                <button
+                  className={`${btnOutline} ${
+                    placing === "stop" ? activeRing : ""
+                  } px-3 py-2`}
+                  onClick={() =>
+                    setPlacing((p) => (p === "stop" ? null : "stop"))
+                  }
+                  title="Click map to add a stop"
+                >
+                  Add Stop on Map
+                </button>
 
                 <button
                   className={`${btnOutline} px-3 py-2`}
@@ -836,9 +2503,154 @@ export default function LeafletHazardMap() {
                   Use My Location (From)
                 </button>
 
+                <div className="flex items-center gap-1">
+                  <label className="text-xs text-gray-600 dark:text-neutral-300">
+                    Depart:
+                  </label>
+                  <input
+                    type="datetime-local"
+                    className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm dark:bg-neutral-900 dark:border-neutral-700"
+                    value={toLocalInput(departAt)}
+                    onChange={(e) =>
+                      setDepartAt(fromLocalInput(e.target.value))
+                    }
+                    title="Only hazards active at this time are avoided"
+                  />
+                  {departAt && (
+                    <button
+                      className={`${btnGhost} px-2 py-1`}
+                      onClick={() => setDepartAt(null)}
+                    >
+                      Now
+                    </button>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2 flex-wrap">
+                  <select
+                    className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm dark:bg-neutral-900 dark:border-neutral-700"
+                    value={profile}
+                    onChange={(e) => {
+                      const p = e.target.value as TravelProfile;
+                      setProfile(p);
+                      setSimSpeedKmh(TRAVEL_PROFILES[p].speedKmh);
+                    }}
+                    title="Travel profile"
+                  >
+                    {Object.entries(TRAVEL_PROFILES).map(([key, p]) => (
+                      <option key={key} value={key}>
+                        {p.label}
+                      </option>
+                    ))}
+                  </select>
+                  {profile === "hgv" && (
+                    <>
+                      <label className="inline-flex items-center gap-1 text-xs text-gray-600 dark:text-neutral-300">
+                        Height
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.1}
+                          className="w-16 rounded-md border border-gray-300 bg-white px-1 py-1 text-sm dark:bg-neutral-900 dark:border-neutral-700"
+                          value={hgv.heightM ?? ""}
+                          onChange={(e) =>
+                            setHgv((h) => ({
+                              ...h,
+                              heightM: parseFloat(e.target.value) || undefined,
+                            }))
+                          }
+                          title="Vehicle height"
+                        />
+                        m
+                      </label>
+                      <label className="inline-flex items-center gap-1 text-xs text-gray-600 dark:text-neutral-300">
+                        Weight
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.1}
+                          className="w-16 rounded-md border border-gray-300 bg-white px-1 py-1 text-sm dark:bg-neutral-900 dark:border-neutral-700"
+                          value={hgv.weightT ?? ""}
+                          onChange={(e) =>
+                            setHgv((h) => ({
+                              ...h,
+                              weightT: parseFloat(e.target.value) || undefined,
+                            }))
+                          }
+                          title="Gross vehicle weight"
+                        />
+                        t
+                      </label>
+                      <label className="inline-flex items-center gap-1 text-xs text-gray-600 dark:text-neutral-300">
+                        Axle
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.1}
+                          className="w-16 rounded-md border border-gray-300 bg-white px-1 py-1 text-sm dark:bg-neutral-900 dark:border-neutral-700"
+                          value={hgv.axleLoadT ?? ""}
+                          onChange={(e) =>
+                            setHgv((h) => ({
+                              ...h,
+                              axleLoadT:
+                                parseFloat(e.target.value) || undefined,
+                            }))
+                          }
+                          title="Axle load"
+                        />
+                        t
+                      </label>
+                      <label className="inline-flex items-center gap-1 text-xs text-gray-600 dark:text-neutral-300">
+                        <input
+                          type="checkbox"
+                          checked={!!hgv.hazmat}
+                          onChange={(e) =>
+                            setHgv((h) => ({ ...h, hazmat: e.target.checked }))
+                          }
+                          className="accent-sky-500"
+                        />
+                        Hazmat
+                      </label>
+                    </>
+                  )}
+                  {Object.entries(AVOID_FEATURES).map(([key, f]) => (
+                    <label
+                      key={key}
+                      className="inline-flex items-center gap-1 text-xs text-gray-600 dark:text-neutral-300"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={avoidFeatures.includes(key as AvoidFeature)}
+                        onChange={(e) =>
+                          setAvoidFeatures((prev) =>
+                            e.target.checked
+                              ? [...prev, key as AvoidFeature]
+                              : prev.filter((x) => x !== key)
+                          )
+                        }
+                        className="accent-sky-500"
+                      />
+                      Avoid {f.label.toLowerCase()}
+                    </label>
+                  ))}
+                </div>
+
+                <label
+                  className="inline-flex items-center gap-1 text-xs text-gray-600 dark:text-neutral-300"
+                  title="Route on the local road graph instead of the routing service"
+                >
+                  <input
+                    type="checkbox"
+                    checked={forceOffline}
+                    onChange={(e) => setForceOffline(e.target.checked)}
+                    className="accent-sky-500"
+                  />
+                  Offline
+                </label>
+
                 <button
                   className={`${btnSolid} px-3 py-2`}
-                  onClick={fetchRoute}
+                  onClick={() => fetchRoute()}
                 >
                   Get Directions
                 </button>
@@ -859,16 +2671,29 @@ export default function LeafletHazardMap() {
                   </button>
                 )}
 
-                <button
-                  className={`${btnOutline} px-3 py-2 ${
+                <select
+                  className={`rounded-md border border-gray-300 bg-white px-2 py-2 text-sm dark:bg-neutral-900 dark:border-neutral-700 ${
                     canHandOff ? "" : "opacity-60 cursor-not-allowed"
                   }`}
                   disabled={!canHandOff}
-                  onClick={handleHandOff}
-                  title="Open in Google Maps (with via points)"
+                  value=""
+                  onChange={(e) =>
+                    handleHandOff(e.target.value as HandOffTarget)
+                  }
+                  title="Open in another navigation app, with via points at our detours"
                 >
-                  Open in Google Maps
-                </button>
+                  <option value="" disabled>
+                    Open in…
+                  </option>
+                  {Object.entries(HANDOFF_TARGETS).map(([key, t]) => (
+                    <option key={key} value={key}>
+                      {t.label}
+                    </option>
+                  ))}
+                </select>
+                {handOffNote && (
+                  <span className="text-xs text-amber-600">{handOffNote}</span>
+                )}
 
                 {/* Simulation controls */}
                 <div className="flex items-center gap-2">
@@ -882,10 +2707,26 @@ export default function LeafletHazardMap() {
                       setSimSpeedKmh(parseInt(e.target.value, 10))
                     }
                   >
-                    <option value={20}>20 km/h</option>
-                    <option value={40}>40 km/h</option>
-                    <option value={60}>60 km/h</option>
-                    <option value={80}>80 km/h</option>
+                    <option value={0}>Route timing</option>
+                    {SIM_SPEEDS_KMH.map((v) => (
+                      <option key={v} value={v}>
+                        {v} km/h
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm dark:bg-neutral-900 dark:border-neutral-700"
+                    value={simMultiplier}
+                    onChange={(e) =>
+                      setSimMultiplier(parseInt(e.target.value, 10))
+                    }
+                    title="Simulation speed-up"
+                  >
+                    {SPEED_MULTIPLIERS.map((v) => (
+                      <option key={v} value={v}>
+                        {v}×
+                      </option>
+                    ))}
                   </select>
 
                   {!simulateOn ? (
@@ -896,13 +2737,282 @@ export default function LeafletHazardMap() {
                       Simulate GPS
                     </button>
                   ) : (
+                    <>
+                      {!replaying && (
+                        <button
+                          className={`${btnOutline} px-3 py-2`}
+                          onClick={() => setSimPaused((v) => !v)}
+                        >
+                          {simPaused ? "Resume" : "Pause"}
+                        </button>
+                      )}
+                      <button
+                        className={`${btnDanger} px-3 py-2`}
+                        onClick={stopSimulation}
+                      >
+                        Stop Simulation
+                      </button>
+                    </>
+                  )}
+                </div>
+
+                {simulateOn && !replaying && simulator && (
+                  <div className="flex w-full flex-wrap items-center gap-2 text-xs text-gray-600 dark:text-neutral-300">
+                    <input
+                      type="range"
+                      min={0}
+                      max={Math.round(simulator.totalMeters)}
+                      step={1}
+                      value={Math.min(simDistM, simulator.totalMeters)}
+                      onChange={(e) => seekSimulation(Number(e.target.value))}
+                      className="w-48 accent-sky-500"
+                      aria-label="Seek"
+                    />
+                    <span>
+                      {formatDistance(simDistM)} /{" "}
+                      {formatDistance(simulator.totalMeters)}
+                    </span>
+                    <label className="inline-flex items-center gap-1">
+                      Noise
+                      <input
+                        type="number"
+                        min={0}
+                        value={simNoise.jitterM}
+                        onChange={(e) =>
+                          setSimNoise((n) => ({
+                            ...n,
+                            jitterM: Math.max(0, Number(e.target.value) || 0),
+                          }))
+                        }
+                        className="w-14 rounded-md border border-gray-300 bg-white px-1 py-0.5 dark:bg-neutral-900 dark:border-neutral-700"
+                      />
+                      m
+                    </label>
+                    <label className="inline-flex items-center gap-1">
+                      Drift
+                      <input
+                        type="number"
+                        min={0}
+                        value={simNoise.driftM}
+                        onChange={(e) =>
+                          setSimNoise((n) => ({
+                            ...n,
+                            driftM: Math.max(0, Number(e.target.value) || 0),
+                          }))
+                        }
+                        className="w-14 rounded-md border border-gray-300 bg-white px-1 py-0.5 dark:bg-neutral-900 dark:border-neutral-700"
+                      />
+                      m
+                    </label>
+                    <label className="inline-flex items-center gap-1">
+                      Dropouts
+                      <input
+                        type="number"
+                        min={0}
+                        max={90}
+                        value={Math.round(simNoise.dropout * 100)}
+                        onChange={(e) =>
+                          setSimNoise((n) => ({
+                            ...n,
+                            dropout:
+                              Math.min(
+                                90,
+                                Math.max(0, Number(e.target.value) || 0)
+                              ) / 100,
+                          }))
+                        }
+                        className="w-14 rounded-md border border-gray-300 bg-white px-1 py-0.5 dark:bg-neutral-900 dark:border-neutral-700"
+                      />
+                      %
+                    </label>
+                    <label
+                      className="inline-flex items-center gap-1"
+                      title="Drive parallel to the route, this far to the right"
+                    >
+                      Offset
+                      <input
+                        type="range"
+                        min={0}
+                        max={200}
+                        step={5}
+                        value={simOffsetM}
+                        onChange={(e) => setSimOffsetM(Number(e.target.value))}
+                        className="w-24 accent-sky-500"
+                      />
+                      {simOffsetM} m
+                    </label>
                     <button
-                      className={`${btnDanger} px-3 py-2`}
-                      onClick={stopSimulation}
+                      className={`${btnOutline} px-2 py-1`}
+                      onClick={veerOff}
+                      title="Leave the route as if a turn was missed"
                     >
-                      Stop Simulation
+                      Veer off
                     </button>
-                  )}
+                  </div>
+                )}
+
+                {/* GPS traces */}
+                <div className="flex items-center gap-2">
+                  <button
+                    className={`${btnOutline} px-3 py-2`}
+                    onClick={() => traceInputRef.current?.click()}
+                    title="Load a GPX or GeoJSON trace to replay"
+                  >
+                    {replayTrace
+                      ? `Trace: ${replayTrace.length} fixes`
+                      : "Load trace…"}
+                  </button>
+                  <input
+                    ref={traceInputRef}
+                    type="file"
+                    accept=".gpx,.geojson,.json"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) loadTrace(file);
+                      e.target.value = "";
+                    }}
+                  />
+                  <select
+                    className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm dark:bg-neutral-900 dark:border-neutral-700"
+                    value={replaySpeed}
+                    onChange={(e) =>
+                      setReplaySpeed(parseInt(e.target.value, 10))
+                    }
+                    title="Replay speed"
+                  >
+                    {SPEED_MULTIPLIERS.map((v) => (
+                      <option key={v} value={v}>
+                        {v}×
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    className={`${btnOutline} px-3 py-2 ${
+                      replayTrace && !simulateOn
+                        ? ""
+                        : "opacity-60 cursor-not-allowed"
+                    }`}
+                    disabled={!replayTrace || simulateOn}
+                    onClick={startReplay}
+                  >
+                    Replay
+                  </button>
+                  <button
+                    className={`${btnOutline} px-3 py-2 ${
+                      recordedCount ? "" : "opacity-60 cursor-not-allowed"
+                    }`}
+                    disabled={!recordedCount}
+                    onClick={downloadTrace}
+                    title="Download the fixes recorded during navigation as GPX"
+                  >
+                    Download trace ({recordedCount})
+                  </button>
+                </div>
+
+                <label
+                  className="inline-flex items-center gap-1 text-xs text-gray-600 dark:text-neutral-300"
+                  title="Reroute from your position to the destination when you leave the route"
+                >
+                  <input
+                    type="checkbox"
+                    checked={autoReroute}
+                    onChange={(e) => setAutoReroute(e.target.checked)}
+                    className="accent-sky-500"
+                  />
+                  Auto-reroute
+                </label>
+
+                <label
+                  className="inline-flex items-center gap-1 text-xs text-gray-600 dark:text-neutral-300"
+                  title="Smooth GPS fixes (accuracy, speed, heading) and snap the marker to the route"
+                >
+                  <input
+                    type="checkbox"
+                    checked={smoothGps}
+                    onChange={(e) => setSmoothGps(e.target.checked)}
+                    className="accent-sky-500"
+                  />
+                  Snap to route
+                </label>
+
+                {/* Voice guidance */}
+                <div
+                  className={`flex items-center gap-2 ${
+                    canSpeak() ? "" : "opacity-60"
+                  }`}
+                  title={
+                    canSpeak()
+                      ? "Spoken turn guidance and hazard warnings"
+                      : "Speech is not supported in this browser"
+                  }
+                >
+                  <label className="inline-flex items-center gap-1 text-xs text-gray-600 dark:text-neutral-300">
+                    <input
+                      type="checkbox"
+                      checked={voiceOn}
+                      onChange={(e) => setVoiceOn(e.target.checked)}
+                      className="accent-sky-500"
+                    />
+                    Voice
+                  </label>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.1}
+                    value={voiceVolume}
+                    disabled={!voiceOn}
+                    onChange={(e) => setVoiceVolume(parseFloat(e.target.value))}
+                    className="w-20 accent-sky-500"
+                    aria-label="Voice volume"
+                  />
+                  <select
+                    className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm dark:bg-neutral-900 dark:border-neutral-700"
+                    value={language}
+                    onChange={(e) =>
+                      setLanguage(e.target.value as InstructionLanguage)
+                    }
+                    title="Language for instructions and voice (applies on the next route)"
+                  >
+                    {Object.entries(INSTRUCTION_LANGUAGES).map(([k, v]) => (
+                      <option key={k} value={k}>
+                        {v.label}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm dark:bg-neutral-900 dark:border-neutral-700"
+                    value={announceAt}
+                    onChange={(e) => setAnnounceAt(e.target.value)}
+                    title="When upcoming turns are announced"
+                  >
+                    {Object.entries(ANNOUNCE_PRESETS).map(([k, v]) => (
+                      <option key={k} value={k}>
+                        {v.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <label className="text-xs text-gray-600 dark:text-neutral-300">
+                    Hazard alerts:
+                  </label>
+                  <select
+                    className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm dark:bg-neutral-900 dark:border-neutral-700"
+                    value={alertAheadMeters}
+                    onChange={(e) =>
+                      setAlertAheadMeters(parseInt(e.target.value, 10))
+                    }
+                    title="Alert when a hazard is this far ahead on the route"
+                  >
+                    {ALERT_AHEAD_M.map((v) => (
+                      <option key={v} value={v}>
+                        {formatDistance(v)} ahead
+                      </option>
+                    ))}
+                  </select>
                 </div>
 
                 <div className="text-xs text-gray-600 dark:text-neutral-300">
@@ -914,6 +3024,12 @@ export default function LeafletHazardMap() {
                   >
                     {offRoute ? `${offRouteMeters.toFixed(0)} m` : "OK"}
                   </span>
+                  {rerouting && (
+                    <span className="ml-2 text-amber-600">Rerouting…</span>
+                  )}
+                  {rerouteCount > 0 && (
+                    <span className="ml-2">Reroutes: {rerouteCount}</span>
+                  )}
                 </div>
               </div>
             </div>
@@ -922,7 +3038,110 @@ export default function LeafletHazardMap() {
       </div>
 
       {/* Map */}
-      <div className="flex-1">
+      <div
+        className="flex-1 relative"
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes("Files")) return;
+          e.preventDefault();
+          setDragOver(true);
+        }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={(e) => {
+          if (!e.dataTransfer.files.length) return;
+          e.preventDefault();
+          setDragOver(false);
+          importFiles(e.dataTransfer.files);
+        }}
+      >
+        {dragOver && (
+          <div className="absolute inset-0 z-[10500] flex items-center justify-center bg-sky-500/10 border-4 border-dashed border-sky-500 pointer-events-none">
+            <div className="rounded-md bg-white/90 px-4 py-2 text-sm font-medium text-gray-700 shadow">
+              Drop GeoJSON, KML or GPX to import hazards
+            </div>
+          </div>
+        )}
+        {/* Hazard proximity alerts */}
+        {guiding && (hazardAlerts.length > 0 || routeHazardNotice) && (
+          <div className="absolute left-1/2 top-3 z-[10500] w-80 -translate-x-1/2 space-y-2">
+            {routeHazardNotice && hazardsById.has(routeHazardNotice.id) && (
+              <div
+                className="flex items-start gap-2 rounded-lg border-l-4 border-sky-500 bg-white/95 px-3 py-2 text-sm shadow dark:bg-neutral-900/95"
+                role="alert"
+              >
+                <div className="flex-1">
+                  <div className="font-semibold">New hazard on your route</div>
+                  <div className="text-xs text-gray-600 dark:text-neutral-300">
+                    {hazardLabel(hazardsById.get(routeHazardNotice.id)!)} ·
+                    reported by {routeHazardNotice.by}
+                  </div>
+                  <button
+                    className={`${btnOutline} mt-1 px-2 py-0.5 text-xs`}
+                    disabled={rerouting}
+                    onClick={() => {
+                      setRouteHazardNotice(null);
+                      if (!userPos) {
+                        fetchRoute();
+                        return;
+                      }
+                      lastRerouteAtRef.current = 0; // asked for: no cooldown
+                      rerouteFrom(userPos);
+                    }}
+                  >
+                    Reroute
+                  </button>
+                </div>
+                <button
+                  className="text-gray-500 hover:text-gray-800 dark:hover:text-neutral-100"
+                  onClick={() => setRouteHazardNotice(null)}
+                  aria-label="Dismiss notice"
+                >
+                  ×
+                </button>
+              </div>
+            )}
+            {hazardAlerts.map((id) => {
+              const h = hazardsById.get(id);
+              const e = encounterById.get(id);
+              if (!h || !e) return null;
+              const ahead = e.atMeters - (progress?.alongMeters ?? 0);
+              if (ahead < -ALERT_AHEAD_M[0]) return null; // well past it
+              return (
+                <div
+                  key={id}
+                  className="flex items-start gap-2 rounded-lg border-l-4 bg-white/95 px-3 py-2 text-sm shadow dark:bg-neutral-900/95"
+                  style={{
+                    borderColor: (
+                      HAZARD_CATEGORIES[h.properties.category] ??
+                      HAZARD_CATEGORIES.other
+                    ).color,
+                  }}
+                  role="alert"
+                >
+                  <div className="flex-1">
+                    <div className="font-semibold">{hazardLabel(h)}</div>
+                    <div className="text-xs text-gray-600 dark:text-neutral-300">
+                      {HAZARD_SEVERITIES[h.properties.severity].label} ·{" "}
+                      {ahead > 0
+                        ? `${formatDistance(ahead)} ahead`
+                        : e.crosses
+                          ? "on your route now"
+                          : "passing now"}
+                    </div>
+                  </div>
+                  <button
+                    className="text-gray-500 hover:text-gray-800 dark:hover:text-neutral-100"
+                    onClick={() =>
+                      setHazardAlerts((prev) => prev.filter((x) => x !== id))
+                    }
+                    aria-label="Dismiss alert"
+                  >
+                    ×
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
         <MapContainer
           ref={mapRef as any}
           center={(start as LatLngExpression) || [-6.2, 106.816]}
@@ -938,16 +3157,102 @@ export default function LeafletHazardMap() {
             placing={placing}
             onSetStart={setStart}
             onSetEnd={setEnd}
+            onAddStop={addStop}
             onAddHazardPoint={addBufferedHazardPoint}
             clearPlacing={() => setPlacing(null)}
             activeMode={mode}
           />
 
-          {start && <Marker position={start} />}
-          {end && <Marker position={end} />}
+          {start && (
+            <Marker
+              position={start}
+              draggable
+              eventHandlers={{
+                dragend: (e) => {
+                  const p = e.target.getLatLng();
+                  setStart([p.lat, p.lng]);
+                  setFromText("");
+                },
+              }}
+            />
+          )}
+          {stops.map((s, i) => (
+            <Marker
+              key={s.id}
+              position={s.pos}
+              draggable
+              eventHandlers={{
+                dragend: (e) => {
+                  const p = e.target.getLatLng();
+                  setStops((prev) =>
+                    prev.map((w) =>
+                      w.id === s.id
+                        ? {
+                            ...w,
+                            pos: [p.lat, p.lng],
+                            label: `${p.lat.toFixed(5)}, ${p.lng.toFixed(5)}`,
+                          }
+                        : w
+                    )
+                  );
+                },
+              }}
+            >
+              <Tooltip permanent direction="top" offset={[0, -36]}>
+                {i + 1}
+              </Tooltip>
+            </Marker>
+          ))}
+          {end && (
+            <Marker
+              position={end}
+              draggable
+              eventHandlers={{
+                dragend: (e) => {
+                  const p = e.target.getLatLng();
+                  setEnd([p.lat, p.lng]);
+                  setToText("");
+                },
+              }}
+            />
+          )}
           {userPos && <Marker position={userPos} />}
 
+          {routes.map((r, i) =>
+            i === selectedRoute ? null : (
+              <Polyline
+                key={i}
+                positions={r.geometry.map(([lng, lat]) => [lat, lng])}
+                pathOptions={{ weight: 5, color: "#6b7280", opacity: 0.6 }}
+                eventHandlers={{ click: () => selectRoute(i) }}
+              />
+            )
+          )}
           <Polyline positions={route || []} pathOptions={{ weight: 6 }} />
+          {encounters.map((e) => {
+            const h = hazardsById.get(e.hazardId);
+            if (!h) return null;
+            return (
+              <CircleMarker
+                key={e.hazardId}
+                center={[e.point[1], e.point[0]]}
+                radius={7}
+                pathOptions={{
+                  color: "#fff",
+                  weight: 2,
+                  fillColor: HAZARD_CATEGORIES[h.properties.category]?.color,
+                  fillOpacity: 1,
+                }}
+              >
+                <Tooltip>
+                  {(e.atMeters / 1000).toFixed(1)} km · {hazardLabel(h)} ·{" "}
+                  {e.crosses
+                    ? "crosses"
+                    : `${Math.round(e.closestMeters)} m away`}
+                </Tooltip>
+              </CircleMarker>
+            );
+          })}
 
           {/* Draw layers ALWAYS mounted so hazards remain visible across modes */}
           <FeatureGroup
@@ -956,6 +3261,7 @@ export default function LeafletHazardMap() {
                 ? (fg as unknown as L.FeatureGroup)
                 : null;
             }}
+            eventHandlers={{ click: onHazardClick }}
           >
             {mode === "hazard" && (
               <EditControl
@@ -963,6 +3269,11 @@ export default function LeafletHazardMap() {
                 onCreated={onCreated}
                 onEdited={onEdited}
                 onDeleted={onDeleted}
+                edit={{ remove: canModerate }}
+                onEditStart={() => (drawBusyRef.current = true)}
+                onEditStop={() => (drawBusyRef.current = false)}
+                onDeleteStart={() => (drawBusyRef.current = true)}
+                onDeleteStop={() => (drawBusyRef.current = false)}
                 draw={{
                   marker: false,
                   polyline: false,
@@ -974,6 +3285,27 @@ export default function LeafletHazardMap() {
               />
             )}
           </FeatureGroup>
+
+          {editing && editingHazard && (
+            <Popup
+              position={editing.latlng}
+              eventHandlers={{ remove: () => setEditing(null) }}
+            >
+              <HazardEditor
+                key={editing.id}
+                hazard={editingHazard}
+                onSave={(draft, baseVersion) =>
+                  saveHazardProperties(editing.id, draft, baseVersion)
+                }
+                onDelete={(baseVersion) =>
+                  removeHazard(editing.id, baseVersion)
+                }
+                onReview={(action) => reviewReport(editing.id, action)}
+                canModerate={canModerate}
+                onCancel={() => setEditing(null)}
+              />
+            </Popup>
+          )}
         </MapContainer>
       </div>
 
@@ -981,13 +3313,232 @@ export default function LeafletHazardMap() {
       {mode === "navigate" && route && (
         <div className="absolute left-3 bottom-3 z-[10000] pointer-events-auto">
           <div className="rounded-lg bg-white/90 dark:bg-neutral-900/90 shadow px-3 py-2 text-xs text-gray-700 dark:text-neutral-200 max-w-sm">
-            <div className="font-semibold mb-1">Navigation</div>
+            <div className="font-semibold mb-1">
+              Navigation
+              {routeProvider === "offline" && (
+                <span className="ml-2 rounded bg-amber-100 px-1.5 py-0.5 text-[10px] font-medium text-amber-800">
+                  offline route
+                </span>
+              )}
+            </div>
+            {routes.length > 0 && (
+              <div className="mb-2">
+                <table className="w-full">
+                  <thead className="text-gray-500">
+                    <tr>
+                      <th className="text-left font-normal">Route</th>
+                      <th className="text-right font-normal">Distance</th>
+                      <th className="text-right font-normal">Time</th>
+                      <th
+                        className="text-right font-normal"
+                        title="Travel time plus the penalty for driving through discouraged zones"
+                      >
+                        Score
+                      </th>
+                      <th
+                        className="text-right font-normal"
+                        title="Route length within the chosen distance of a hazard"
+                      >
+                        Near hazards
+                      </th>
+                      <th
+                        className="text-right font-normal"
+                        title="Closest approach to any hazard"
+                      >
+                        Closest
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {routes.map((r, i) => (
+                      <tr
+                        key={i}
+                        className={`cursor-pointer ${
+                          i === selectedRoute
+                            ? "font-semibold text-sky-700 dark:text-sky-400"
+                            : "hover:bg-gray-100 dark:hover:bg-neutral-800"
+                        }`}
+                        onClick={() => selectRoute(i)}
+                      >
+                        <td>{String.fromCharCode(65 + i)}</td>
+                        <td className="text-right">
+                          {formatDistance(r.summary.distance)}
+                        </td>
+                        <td className="text-right">
+                          {formatDuration(r.summary.duration)}
+                        </td>
+                        <td className="text-right">
+                          {formatDuration(scores[i] ?? r.summary.duration)}
+                        </td>
+                        <td className="text-right">
+                          {formatDistance(exposures[i]?.nearMeters ?? 0)}
+                        </td>
+                        <td className="text-right">
+                          {exposures[i]?.closestMeters == null
+                            ? "–"
+                            : formatDistance(exposures[i].closestMeters!)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <label className="mt-1 flex items-center gap-1 text-gray-500">
+                  Near = within
+                  <select
+                    className="rounded border border-gray-300 bg-white px-1 text-xs dark:bg-neutral-900 dark:border-neutral-700"
+                    value={exposureRadius}
+                    onChange={(e) =>
+                      setExposureRadius(parseInt(e.target.value, 10))
+                    }
+                  >
+                    {[50, 100, 250, 500, 1000].map((m) => (
+                      <option key={m} value={m}>
+                        {m} m
+                      </option>
+                    ))}
+                  </select>
+                  of a hazard
+                </label>
+                <div className="mt-1 flex items-center gap-2">
+                  <button
+                    className="text-sky-700 underline dark:text-sky-400"
+                    onClick={() => setShowReport((v) => !v)}
+                  >
+                    {showReport ? "Hide" : "Show"} hazard report (
+                    {encounters.length})
+                  </button>
+                  {encounters.length > 0 && (
+                    <button
+                      className="text-sky-700 underline dark:text-sky-400"
+                      onClick={exportReport}
+                    >
+                      Export CSV
+                    </button>
+                  )}
+                </div>
+                {showReport && (
+                  <div className="mt-1 max-h-40 overflow-auto pr-1">
+                    {encounters.length ? (
+                      <table className="w-full">
+                        <thead className="text-gray-500">
+                          <tr>
+                            <th className="text-left font-normal">km</th>
+                            <th className="text-left font-normal">Hazard</th>
+                            <th className="text-right font-normal">Distance</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {encounters.map((e) => {
+                            const h = hazardsById.get(e.hazardId);
+                            if (!h) return null;
+                            const avoided = blockingIds.has(e.hazardId);
+                            return (
+                              <tr
+                                key={e.hazardId}
+                                className="cursor-pointer hover:bg-gray-100 dark:hover:bg-neutral-800"
+                                onClick={() =>
+                                  mapRef.current?.setView(
+                                    [e.point[1], e.point[0]],
+                                    15
+                                  )
+                                }
+                              >
+                                <td>{(e.atMeters / 1000).toFixed(1)}</td>
+                                <td>
+                                  {hazardLabel(h)}{" "}
+                                  <span className="text-gray-500">
+                                    (
+                                    {HAZARD_SEVERITIES[h.properties.severity]
+                                      ?.label ?? h.properties.severity}
+                                    {avoided ? "" : ", not avoided"})
+                                  </span>
+                                </td>
+                                <td
+                                  className={`text-right ${
+                                    e.crosses
+                                      ? "font-semibold text-red-600"
+                                      : ""
+                                  }`}
+                                >
+                                  {e.crosses
+                                    ? "crosses"
+                                    : formatDistance(e.closestMeters)}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    ) : (
+                      <div className="text-gray-500">
+                        No hazards within {exposureRadius} m of the route.
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+            {segments.length > 1 && (
+              <div className="mb-2 space-y-0.5">
+                {segments.map((seg, i) => (
+                  <div key={i} className="flex justify-between gap-3">
+                    <span>
+                      {i === 0 ? "Start" : `Stop ${i}`} →{" "}
+                      {i === segments.length - 1 ? "End" : `Stop ${i + 1}`}
+                    </span>
+                    <span className="text-gray-500">
+                      {formatDistance(seg.distance)} ·{" "}
+                      {formatDuration(seg.duration)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {progress && (
+              <div className="mb-2 rounded-md bg-sky-50 px-2 py-1 dark:bg-sky-950">
+                {nextStep ? (
+                  <div className="text-sm font-semibold">
+                    In {formatDistance(progress.toNextMeters)}: {nextStep.text}
+                  </div>
+                ) : (
+                  <div className="text-sm font-semibold">
+                    Destination in {formatDistance(progress.toNextMeters)}
+                  </div>
+                )}
+                <div className="text-gray-500">
+                  {formatDistance(progress.remainingMeters)} left · ETA{" "}
+                  {new Date(
+                    Date.now() + progress.remainingSeconds * 1000
+                  ).toLocaleTimeString([], {
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}{" "}
+                  ({formatDuration(progress.remainingSeconds)})
+                </div>
+              </div>
+            )}
             {instructions.length ? (
               <div className="space-y-1 max-h-40 overflow-auto pr-1">
-                {instructions.slice(0, 4).map((s, i) => (
-                  <div key={i} className="flex items-start gap-2">
-                    <span className="mt-0.5 inline-block w-1.5 h-1.5 rounded-full bg-sky-500" />
+                {instructions.slice(stepFrom, stepFrom + 4).map((s, k) => (
+                  <div
+                    key={stepFrom + k}
+                    className={`flex items-start gap-2 ${
+                      stepFrom + k === progress?.step ? "font-semibold" : ""
+                    }`}
+                  >
+                    <span
+                      className={`mt-0.5 inline-block w-1.5 h-1.5 rounded-full ${
+                        stepFrom + k === progress?.step
+                          ? "bg-green-500"
+                          : "bg-sky-500"
+                      }`}
+                    />
                     <span>
+                      {s.leg != null && (
+                        <span className="mr-1 rounded bg-gray-100 px-1 text-[10px] font-semibold text-gray-600 dark:bg-neutral-800 dark:text-neutral-300">
+                          Leg {s.leg + 1}
+                        </span>
+                      )}
                       {s.text}{" "}
                       <span className="text-gray-500">
                         ({Math.round(s.distance)} m)
@@ -995,9 +3546,9 @@ export default function LeafletHazardMap() {
                     </span>
                   </div>
                 ))}
-                {instructions.length > 4 && (
+                {instructions.length > stepFrom + 4 && (
                   <div className="text-gray-500">
-                    … {instructions.length - 4} more steps
+                    … {instructions.length - stepFrom - 4} more steps
                   </div>
                 )}
               </div>
@@ -1013,23 +3564,61 @@ export default function LeafletHazardMap() {
               >
                 {offRoute ? `${offRouteMeters.toFixed(0)} m` : "OK"}
               </span>
+              {rerouting && (
+                <span className="ml-2 text-amber-600">Rerouting…</span>
+              )}
+              {rerouteCount > 0 && (
+                <span className="ml-2 text-gray-500">
+                  ({rerouteCount} reroute{rerouteCount === 1 ? "" : "s"})
+                </span>
+              )}
             </div>
           </div>
         </div>
       )}
 
-      {/* Tips card */}
-      <div className="absolute right-3 bottom-3 z-[10000] pointer-events-none">
+      {/* Live changes + tips card */}
+      <div className="absolute right-3 bottom-3 z-[10000] pointer-events-none flex flex-col items-end gap-2">
+        {activity.length > 0 && (
+          <div className="pointer-events-auto w-64 rounded-lg bg-white/90 dark:bg-neutral-900/90 shadow px-3 py-2 text-xs text-gray-700 dark:text-neutral-200">
+            <div className="mb-1 flex items-center font-semibold">
+              Live changes
+              <button
+                className="ml-auto font-normal text-gray-500 hover:text-gray-800 dark:hover:text-neutral-100"
+                onClick={() => setActivity([])}
+                aria-label="Clear live changes"
+              >
+                ×
+              </button>
+            </div>
+            {activity.map((a, i) => (
+              <div key={`${a.at}-${i}`} className="truncate" title={a.text}>
+                <span className="text-gray-500">
+                  {new Date(a.at).toLocaleTimeString([], {
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}
+                </span>{" "}
+                {a.text}
+              </div>
+            ))}
+          </div>
+        )}
         <div className="rounded-lg bg-white/90 dark:bg-neutral-900/90 shadow px-3 py-2 text-xs text-gray-700 dark:text-neutral-200">
           <div className="font-semibold mb-1">Tips</div>
           {mode === "hazard" ? (
             <>
               <div>• Use Hazard Point + Buffer for quick avoid.</div>
               <div>• Draw polygon/rectangle/circle for specific areas.</div>
+              <div>• Click a hazard to edit, confirm or dispute it.</div>
+              <div>• Dotted outlines are reports awaiting review.</div>
+              <div>• Drop GeoJSON/KML/GPX on the map to import.</div>
             </>
           ) : (
             <>
               <div>• Search “From/To” then Get Directions.</div>
+              <div>• Add stops, drag markers to move them.</div>
+              <div>• Click a grey alternative to compare or switch.</div>
               <div>
                 • Start Navigation or Simulate GPS to test realtime updates.
               </div>
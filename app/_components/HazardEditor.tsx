@@ -0,0 +1,319 @@
+"use client";
+
+import { useState } from "react";
+
+import { fromLocalInput, toLocalInput } from "../_lib/format";
+import {
+  HAZARD_AVOIDANCE,
+  HAZARD_CATEGORIES,
+  HAZARD_REVIEW_ACTIONS,
+  HAZARD_SEVERITIES,
+  HAZARD_STATUSES,
+  MAX_HAZARD_WEIGHT,
+  canReview,
+  type HazardAvoidance,
+  type HazardCategory,
+  type HazardDraft,
+  type HazardFeature,
+  type HazardReviewAction,
+  type HazardSeverity,
+} from "../_lib/hazards";
+import { photoUrl, uploadPhoto } from "../_lib/photosApi";
+
+const fieldClass =
+  "w-full rounded-md border border-gray-300 bg-white px-2 py-1 text-sm dark:bg-neutral-900 dark:border-neutral-700";
+
+/* ---------- Edit form shown in the hazard popup ---------- */
+// Mount with key={hazard.id}: the form starts from the hazard as it was when
+// opened, and later changes by others are offered rather than applied
+export default function HazardEditor({
+  hazard,
+  onSave,
+  onDelete,
+  onReview,
+  canModerate,
+  onCancel,
+}: {
+  hazard: HazardFeature;
+  onSave: (draft: HazardDraft, baseVersion: number) => Promise<void>;
+  onDelete: (baseVersion: number) => void;
+  onReview: (action: HazardReviewAction) => Promise<void>;
+  canModerate: boolean;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState<HazardDraft>(hazard.properties);
+  const [baseVersion, setBaseVersion] = useState(hazard.properties.version);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [reviewing, setReviewing] = useState(false);
+  const changedByOthers = hazard.properties.version !== baseVersion;
+
+  const loadTheirs = () => {
+    setDraft(hazard.properties);
+    setBaseVersion(hazard.properties.version);
+  };
+
+  const set = <K extends keyof HazardDraft>(key: K, value: HazardDraft[K]) =>
+    setDraft((d) => ({ ...d, [key]: value }));
+
+  const { status, confirmedBy, disputedBy, reviewedBy, proposal } =
+    hazard.properties;
+  const review = async (action: HazardReviewAction) => {
+    setReviewing(true);
+    try {
+      await onReview(action);
+    } finally {
+      setReviewing(false);
+    }
+  };
+  // Votes and moderator actions that apply to the report as it stands
+  const actions = (
+    Object.keys(HAZARD_REVIEW_ACTIONS) as HazardReviewAction[]
+  ).filter(
+    (a) =>
+      canReview(hazard.properties, a) &&
+      (canModerate || !HAZARD_REVIEW_ACTIONS[a].moderator)
+  );
+  // What a waiting edit would change
+  const proposed = proposal
+    ? [
+        ...(proposal.geometry ? ["shape"] : []),
+        ...(Object.keys(proposal.properties) as (keyof HazardDraft)[]).filter(
+          (k) => proposal.properties[k] !== hazard.properties[k]
+        ),
+      ]
+    : [];
+
+  return (
+    <form
+      className="flex flex-col gap-2 w-64 text-xs text-gray-700"
+      onSubmit={async (e) => {
+        e.preventDefault();
+        if (
+          draft.validFrom &&
+          draft.validUntil &&
+          Date.parse(draft.validUntil) <= Date.parse(draft.validFrom)
+        ) {
+          alert("“Valid until” must be after “Valid from”.");
+          return;
+        }
+        setSaving(true);
+        try {
+          await onSave(draft, baseVersion);
+        } finally {
+          setSaving(false);
+        }
+      }}
+    >
+      <div className="flex items-center gap-2">
+        <span
+          className="rounded px-1.5 py-0.5 text-[11px] font-medium text-white"
+          style={{ backgroundColor: HAZARD_STATUSES[status].color }}
+          title={reviewedBy ? `by ${reviewedBy}` : undefined}
+        >
+          {HAZARD_STATUSES[status].label}
+        </span>
+        <span title={confirmedBy.join(", ")}>✓ {confirmedBy.length}</span>
+        <span title={disputedBy.join(", ")}>✗ {disputedBy.length}</span>
+      </div>
+      {proposal && (
+        <div className="rounded-md bg-sky-50 px-2 py-1 text-sky-800">
+          Edit proposed by {proposal.by || "someone"}
+          {proposed.length > 0 ? ` (${proposed.join(", ")})` : ""}, waiting for
+          a moderator.
+        </div>
+      )}
+      {actions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {actions.map((a) => (
+            <button
+              key={a}
+              type="button"
+              disabled={reviewing}
+              className={`rounded-md border px-2 py-0.5 disabled:opacity-60 ${
+                HAZARD_REVIEW_ACTIONS[a].moderator
+                  ? "border-sky-400 text-sky-700 hover:bg-sky-50"
+                  : "border-gray-300 hover:bg-gray-50"
+              }`}
+              onClick={() => review(a)}
+            >
+              {HAZARD_REVIEW_ACTIONS[a].label}
+            </button>
+          ))}
+        </div>
+      )}
+      {changedByOthers && (
+        <div className="rounded-md bg-amber-50 px-2 py-1 text-amber-800">
+          {hazard.properties.updatedBy || "Someone"} changed this hazard since
+          you opened it.{" "}
+          <button type="button" className="underline" onClick={loadTheirs}>
+            Load their version
+          </button>
+        </div>
+      )}
+      <input
+        className={fieldClass}
+        placeholder="Title"
+        value={draft.title}
+        onChange={(e) => set("title", e.target.value)}
+      />
+      <div className="flex gap-2">
+        <select
+          className={fieldClass}
+          value={draft.category}
+          onChange={(e) => set("category", e.target.value as HazardCategory)}
+        >
+          {Object.entries(HAZARD_CATEGORIES).map(([key, c]) => (
+            <option key={key} value={key}>
+              {c.label}
+            </option>
+          ))}
+        </select>
+        <select
+          className={fieldClass}
+          value={draft.severity}
+          onChange={(e) => set("severity", e.target.value as HazardSeverity)}
+        >
+          {Object.entries(HAZARD_SEVERITIES).map(([key, s]) => (
+            <option key={key} value={key}>
+              {s.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center gap-2">
+        <select
+          className={fieldClass}
+          value={draft.avoidance}
+          onChange={(e) => set("avoidance", e.target.value as HazardAvoidance)}
+        >
+          {Object.entries(HAZARD_AVOIDANCE).map(([key, a]) => (
+            <option key={key} value={key}>
+              {a.label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={0}
+          max={MAX_HAZARD_WEIGHT}
+          step={1}
+          className={fieldClass}
+          disabled={draft.avoidance !== "discourage"}
+          value={draft.weight}
+          onChange={(e) =>
+            set(
+              "weight",
+              Math.min(MAX_HAZARD_WEIGHT, Math.max(0, Number(e.target.value)))
+            )
+          }
+          title="Extra minutes per km driven through this zone"
+        />
+      </div>
+      <textarea
+        className={fieldClass}
+        placeholder="Notes"
+        rows={3}
+        value={draft.notes}
+        onChange={(e) => set("notes", e.target.value)}
+      />
+      <div className="grid grid-cols-[auto_1fr] items-center gap-x-2 gap-y-1">
+        <label>Valid from</label>
+        <input
+          type="datetime-local"
+          className={fieldClass}
+          value={toLocalInput(draft.validFrom)}
+          onChange={(e) => set("validFrom", fromLocalInput(e.target.value))}
+        />
+        <label>Valid until</label>
+        <input
+          type="datetime-local"
+          className={fieldClass}
+          value={toLocalInput(draft.validUntil)}
+          onChange={(e) => set("validUntil", fromLocalInput(e.target.value))}
+        />
+      </div>
+      {draft.photo ? (
+        <div className="relative">
+          <a href={photoUrl(draft.photo)} target="_blank" rel="noreferrer">
+            <img
+              src={photoUrl(draft.photo)}
+              alt="Report photo"
+              className="max-h-32 w-full rounded-md object-cover"
+            />
+          </a>
+          <button
+            type="button"
+            className="absolute right-1 top-1 rounded bg-white/90 px-1.5 text-gray-700"
+            onClick={() => set("photo", null)}
+            aria-label="Remove photo"
+          >
+            ×
+          </button>
+        </div>
+      ) : (
+        <label className="cursor-pointer rounded-md border border-dashed border-gray-300 px-2 py-1 text-center hover:bg-gray-50">
+          {uploading ? "Uploading…" : "Add photo"}
+          <input
+            type="file"
+            accept="image/*"
+            capture="environment"
+            className="hidden"
+            disabled={uploading}
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (!file) return;
+              setUploading(true);
+              try {
+                set("photo", await uploadPhoto(file));
+              } catch (err) {
+                console.error(err);
+                alert("Could not upload the photo.");
+              } finally {
+                setUploading(false);
+              }
+            }}
+          />
+        </label>
+      )}
+      <input
+        className={fieldClass}
+        placeholder="Reporter"
+        value={draft.reporter}
+        onChange={(e) => set("reporter", e.target.value)}
+      />
+      <div className="text-[11px] text-gray-500">
+        Created {new Date(hazard.properties.createdAt).toLocaleString()}
+        <br />
+        Updated {new Date(hazard.properties.updatedAt).toLocaleString()}
+        {hazard.properties.updatedBy && ` by ${hazard.properties.updatedBy}`}
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          type="submit"
+          disabled={saving || uploading}
+          className="rounded-md bg-sky-500 px-3 py-1 text-white hover:bg-sky-600 disabled:opacity-60"
+        >
+          {saving ? "Saving…" : "Save"}
+        </button>
+        <button
+          type="button"
+          className="rounded-md border border-gray-300 px-3 py-1 hover:bg-gray-50"
+          onClick={onCancel}
+        >
+          Cancel
+        </button>
+        {canModerate && (
+          <button
+            type="button"
+            className="ml-auto rounded-md bg-red-500 px-3 py-1 text-white hover:bg-red-600"
+            onClick={() => onDelete(baseVersion)}
+          >
+            Delete
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
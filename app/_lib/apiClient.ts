@@ -0,0 +1,33 @@
+/* ---------- Fetch wrapper for our own /api routes ---------- */
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code?: string,
+    readonly data?: any // the parsed error body
+  ) {
+    super(message);
+    this.name = "ApiRequestError";
+  }
+}
+
+// Route handlers answer errors as { error: message, code? }
+export async function apiRequest<T>(
+  input: string,
+  init?: RequestInit
+): Promise<T> {
+  const res = await fetch(input, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    throw new ApiRequestError(
+      data?.error ?? `Request failed (${res.status})`,
+      res.status,
+      data?.code,
+      data
+    );
+  }
+  return (res.status === 204 ? undefined : await res.json()) as T;
+}
@@ -0,0 +1,99 @@
+import * as turf from "@turf/turf";
+import { describe, expect, it } from "vitest";
+
+import {
+  buildAvoidPolygons,
+  ORS_MAX_AVOID_AREA_KM2,
+  ORS_MAX_AVOID_BBOX_SIDE_KM,
+} from "./avoid";
+import { DEFAULT_HAZARD_DRAFT, type HazardFeature } from "./hazards";
+
+function square(id: string, side: number): HazardFeature {
+  return {
+    type: "Feature",
+    id,
+    geometry: turf.bboxPolygon([13, 52, 13 + side, 52 + side]).geometry,
+    // Only the draft fields matter for avoid polygons
+    properties: { ...DEFAULT_HAZARD_DRAFT } as HazardFeature["properties"],
+  };
+}
+
+describe("buildAvoidPolygons", () => {
+  it("returns nothing to avoid for no hazards", () => {
+    expect(buildAvoidPolygons([])).toEqual({ avoid: null, tiled: [] });
+  });
+
+  it("passes small hazards through unchanged", () => {
+    const h = square("small", 0.01);
+    const { avoid, tiled } = buildAvoidPolygons([h]);
+    expect(avoid?.coordinates).toEqual([
+      (h.geometry as GeoJSON.Polygon).coordinates,
+    ]);
+    expect(tiled).toEqual([]);
+  });
+
+  it("tiles large hazards into pieces within the ORS limits", () => {
+    const h = square("large", 0.5);
+    const { avoid, tiled } = buildAvoidPolygons([h]);
+    const pieces = avoid!.coordinates;
+    expect(tiled).toEqual([
+      { id: "large", label: expect.any(String), pieces: pieces.length },
+    ]);
+    expect(pieces.length).toBeGreaterThan(1);
+    for (const coordinates of pieces) {
+      const [minX, minY, maxX, maxY] = turf.bbox(turf.polygon(coordinates));
+      expect(
+        turf.area(turf.polygon(coordinates)) / 1_000_000
+      ).toBeLessThanOrEqual(ORS_MAX_AVOID_AREA_KM2);
+      expect(
+        turf.distance([minX, minY], [minX, maxY], { units: "kilometers" })
+      ).toBeLessThanOrEqual(ORS_MAX_AVOID_BBOX_SIDE_KM);
+      expect(
+        turf.distance([minX, minY], [maxX, minY], { units: "kilometers" })
+      ).toBeLessThanOrEqual(ORS_MAX_AVOID_BBOX_SIDE_KM);
+    }
+    // Nothing of the hazard is lost
+    const total = pieces.reduce((s, c) => s + turf.area(turf.polygon(c)), 0);
+    expect(total).toBeCloseTo(turf.area(h.geometry), -3);
+  });
+
+  it("sends overlapping hazards as their union", () => {
+    const a = square("a", 0.01);
+    const b = {
+      ...square("b", 0.01),
+      geometry: turf.bboxPolygon([13.005, 52.005, 13.015, 52.015]).geometry,
+    };
+    const { avoid } = buildAvoidPolygons([a, b]);
+    expect(avoid?.coordinates).toHaveLength(1);
+    const union = turf.union(
+      turf.featureCollection([
+        turf.feature(a.geometry),
+        turf.feature(b.geometry),
+      ])
+    )!;
+    expect(turf.area(turf.polygon(avoid!.coordinates[0]))).toBeCloseTo(
+      turf.area(union),
+      -2
+    );
+  });
+
+  it("simplifies many-vertex shapes without cutting into them", () => {
+    // A 400-point star: spikes 100 m deep, closer together than the tolerance
+    const ring = Array.from({ length: 400 }, (_, i) => {
+      const km = i % 2 ? 0.9 : 1;
+      return turf.destination([13, 52], km, (360 * i) / 400).geometry
+        .coordinates;
+    });
+    const star = {
+      ...square("star", 0),
+      geometry: turf.polygon([[...ring, ring[0]]]).geometry,
+    };
+    const { avoid } = buildAvoidPolygons([star]);
+    const pieces = avoid!.coordinates.map((c) => turf.polygon(c));
+    expect(avoid!.coordinates.flat(2).length).toBeLessThan(ring.length);
+    for (const p of ring)
+      expect(pieces.some((piece) => turf.booleanPointInPolygon(p, piece))).toBe(
+        true
+      );
+  });
+});
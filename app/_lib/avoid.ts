@@ -0,0 +1,168 @@
+import * as turf from "@turf/turf";
+
+import { hazardLabel, type HazardFeature } from "./hazards";
+
+/* ---------- ORS heuristic limits ---------- */
+export const ORS_MAX_AVOID_AREA_KM2 = 200;
+export const ORS_MAX_AVOID_BBOX_SIDE_KM = 20;
+// Square tiles that satisfy both limits with some margin
+const TILE_SIDE_KM =
+  Math.min(ORS_MAX_AVOID_BBOX_SIDE_KM, Math.sqrt(ORS_MAX_AVOID_AREA_KM2)) * 0.9;
+const SIMPLIFY_OVER_VERTICES = 200;
+// ~55 m; shapes are first grown by more than this so simplifying can't cut
+// into the hazard itself
+const SIMPLIFY_TOLERANCE_DEG = 0.0005;
+const SIMPLIFY_MARGIN_M = 60;
+
+export type TiledHazard = { id: string; label: string; pieces: number };
+
+function polygonAreaKm2(poly: GeoJSON.Polygon) {
+  return turf.area(poly) / 1_000_000;
+}
+
+function bboxSideKm(poly: GeoJSON.Polygon) {
+  const [minX, minY, maxX, maxY] = turf.bbox(poly);
+  const width = turf.distance([minX, maxY], [maxX, maxY], {
+    units: "kilometers",
+  });
+  const height = turf.distance([minX, minY], [minX, maxY], {
+    units: "kilometers",
+  });
+  return { width, height };
+}
+
+function fitsOrsLimits(poly: GeoJSON.Polygon) {
+  const { width, height } = bboxSideKm(poly);
+  return (
+    polygonAreaKm2(poly) <= ORS_MAX_AVOID_AREA_KM2 &&
+    width <= ORS_MAX_AVOID_BBOX_SIDE_KM &&
+    height <= ORS_MAX_AVOID_BBOX_SIDE_KM
+  );
+}
+
+function closeRings(rings: number[][][]): number[][][] | null {
+  const outer = rings[0];
+  if (!outer || outer.length < 4) return null;
+  return rings.map((ring) => {
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    return first[0] === last[0] && first[1] === last[1]
+      ? ring
+      : [...ring, first];
+  });
+}
+
+function polygonsOf(g: GeoJSON.Polygon | GeoJSON.MultiPolygon) {
+  return g.type === "Polygon"
+    ? [g]
+    : g.coordinates.map(
+        (coordinates) => ({ type: "Polygon", coordinates }) as GeoJSON.Polygon
+      );
+}
+
+// Keeps the payload small for hand-drawn or imported shapes with many
+// vertices. The result covers the original: it may only grow
+function simplified(poly: GeoJSON.Polygon): GeoJSON.Polygon[] {
+  const n = poly.coordinates.reduce((sum, r) => sum + r.length, 0);
+  if (n <= SIMPLIFY_OVER_VERTICES) return [poly];
+  const grown = turf.buffer(poly, SIMPLIFY_MARGIN_M, { units: "meters" });
+  if (!grown) return [poly];
+  return polygonsOf(grown.geometry).map((p) =>
+    turf.simplify(p, { tolerance: SIMPLIFY_TOLERANCE_DEG })
+  );
+}
+
+// A MultiPolygon's parts mustn't overlap (ORS rejects ones that do), so
+// overlapping hazards are sent as their union
+function merged(polys: GeoJSON.Polygon[]): GeoJSON.Polygon[] {
+  if (polys.length < 2) return polys;
+  try {
+    const union = turf.union(
+      turf.featureCollection(polys.map((p) => turf.feature(p)))
+    );
+    if (union) return polygonsOf(union.geometry);
+  } catch {}
+  return polys;
+}
+
+// Cuts a polygon along a grid of tiles that each fit the ORS limits
+function tile(poly: GeoJSON.Polygon): GeoJSON.Polygon[] {
+  const [minX, minY, maxX, maxY] = turf.bbox(poly);
+  // Size cells in degrees at the latitude where a degree of longitude is widest
+  const widestLat =
+    minY <= 0 && maxY >= 0 ? 0 : Math.min(Math.abs(minY), Math.abs(maxY));
+  const dy = TILE_SIDE_KM / 111.32;
+  const dx = dy / Math.cos((widestLat * Math.PI) / 180);
+  const cells: GeoJSON.Feature<GeoJSON.Polygon>[] = [];
+  for (let x = minX; x < maxX; x += dx) {
+    for (let y = minY; y < maxY; y += dy) {
+      cells.push(
+        turf.bboxPolygon([x, y, Math.min(x + dx, maxX), Math.min(y + dy, maxY)])
+      );
+    }
+  }
+  const pieces: GeoJSON.Polygon[] = [];
+  for (const cell of cells) {
+    const part = turf.intersect(
+      turf.featureCollection([turf.feature(poly), cell])
+    );
+    if (!part) continue;
+    const g = part.geometry;
+    const polys = g.type === "Polygon" ? [g.coordinates] : g.coordinates;
+    for (const coords of polys) {
+      const piece = { type: "Polygon", coordinates: coords } as GeoJSON.Polygon;
+      if (turf.area(piece) > 1) pieces.push(piece);
+    }
+  }
+  return pieces;
+}
+
+/* ---------- Avoid set ---------- */
+// Every hazard is kept: shapes over the ORS limits are tiled into compliant
+// pieces (and reported, with the pieces of any merged area they're part of)
+// rather than dropped
+export function buildAvoidPolygons(hazards: HazardFeature[]): {
+  avoid: GeoJSON.MultiPolygon | null;
+  tiled: TiledHazard[];
+} {
+  const shapes: { h: HazardFeature; poly: GeoJSON.Polygon }[] = [];
+  for (const h of hazards) {
+    for (const { coordinates } of polygonsOf(h.geometry)) {
+      const closed = closeRings(coordinates);
+      if (!closed) continue;
+      for (const poly of simplified({ type: "Polygon", coordinates: closed }))
+        shapes.push({ h, poly });
+    }
+  }
+
+  const coordinates: number[][][][] = [];
+  const tiled = new Map<string, TiledHazard>();
+  for (const area of merged(shapes.map((s) => s.poly))) {
+    if (fitsOrsLimits(area)) {
+      coordinates.push(area.coordinates);
+      continue;
+    }
+    const pieces = tile(area);
+    for (const piece of pieces) coordinates.push(piece.coordinates);
+    const members = new Set(
+      shapes
+        .filter(({ poly }) => turf.booleanIntersects(poly, area))
+        .map(({ h }) => h)
+    );
+    for (const h of members) {
+      const t = tiled.get(h.id);
+      if (t) t.pieces += pieces.length;
+      else
+        tiled.set(h.id, {
+          id: h.id,
+          label: hazardLabel(h),
+          pieces: pieces.length,
+        });
+    }
+  }
+
+  return {
+    avoid: coordinates.length ? { type: "MultiPolygon", coordinates } : null,
+    tiled: [...tiled.values()],
+  };
+}
@@ -0,0 +1,93 @@
+import * as turf from "@turf/turf";
+import { describe, expect, it } from "vitest";
+
+import { discouragePenalty, hazardEncounters, routeExposure } from "./exposure";
+import { DEFAULT_HAZARD_DRAFT, type HazardFeature } from "./hazards";
+import type { LngLat } from "./routing";
+
+// About 7 km due east along 52°N
+const ROUTE: LngLat[] = [
+  [13, 52],
+  [13.1, 52],
+];
+
+function box(
+  id: string,
+  bbox: [number, number, number, number],
+  version = 1
+): HazardFeature {
+  return {
+    type: "Feature",
+    id,
+    geometry: turf.bboxPolygon(bbox).geometry,
+    properties: {
+      ...DEFAULT_HAZARD_DRAFT,
+      avoidance: "discourage",
+      weight: 1,
+      version,
+    } as HazardFeature["properties"],
+  };
+}
+
+describe("hazardEncounters", () => {
+  it("reports crossings at their first entry and near misses at their closest", () => {
+    const crossed = box("crossed", [13.05, 51.999, 13.06, 52.001]);
+    const near = box("near", [13.02, 52.001, 13.03, 52.002]);
+    const far = box("far", [13.02, 52.1, 13.03, 52.11]);
+    const out = hazardEncounters(ROUTE, [crossed, near, far], 300);
+    expect(out.map((e) => [e.hazardId, e.crosses])).toEqual([
+      ["near", false],
+      ["crossed", true],
+    ]);
+    expect(out[0].closestMeters).toBeGreaterThan(100);
+    expect(out[0].closestMeters).toBeLessThan(120);
+    // Entry is 0.05° (~3.4 km) along the route
+    expect(out[1].atMeters).toBeGreaterThan(3400);
+    expect(out[1].atMeters).toBeLessThan(3500);
+  });
+
+  it("measures a hazard again once its version changes", () => {
+    const route = ROUTE.map((p) => [...p] as LngLat);
+    const before = box("moved", [13.05, 51.999, 13.06, 52.001]);
+    expect(hazardEncounters(route, [before], 300)[0].crosses).toBe(true);
+    const after = box("moved", [13.05, 52.002, 13.06, 52.003], 2);
+    const [moved] = hazardEncounters(route, [after], 300);
+    expect(moved.crosses).toBe(false);
+    expect(moved.closestMeters).toBeGreaterThan(200);
+  });
+});
+
+describe("routeExposure", () => {
+  it("counts route near any hazard once and finds the closest far away", () => {
+    const a = box("a", [13.02, 51.999, 13.03, 52.001]);
+    const b = box("b", [13.025, 51.999, 13.035, 52.001]);
+    const { nearMeters } = routeExposure(ROUTE, [a, b], 0);
+    // Overlapping hazards cover 0.015° (~1 km) of route between them
+    expect(nearMeters).toBeGreaterThan(950);
+    expect(nearMeters).toBeLessThan(1150);
+
+    // 0.01° of latitude is ~1.1 km; the further hazard is skipped
+    const close = box("close", [13.05, 52.01, 13.06, 52.02]);
+    const further = box("further", [13.05, 52.1, 13.06, 52.11]);
+    const exposure = routeExposure(ROUTE, [further, close], 300);
+    expect(exposure.nearMeters).toBe(0);
+    expect(exposure.closestMeters).toBeGreaterThan(1100);
+    expect(exposure.closestMeters).toBeLessThan(1120);
+  });
+});
+
+describe("discouragePenalty", () => {
+  it("charges for the route inside soft hazards only", () => {
+    const inside = box("inside", [13.02, 51.999, 13.03, 52.001]);
+    const beside = box("beside", [13.02, 52.01, 13.03, 52.02]);
+    const block = {
+      ...inside,
+      id: "block",
+      properties: { ...inside.properties, avoidance: "block" as const },
+    };
+    // ~0.69 km inside at weight 1 costs ~41 s
+    const penalty = discouragePenalty(ROUTE, [inside, beside, block]);
+    expect(penalty).toBeGreaterThan(38);
+    expect(penalty).toBeLessThan(45);
+  });
+});
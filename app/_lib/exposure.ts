@@ -0,0 +1,328 @@
+import * as turf from "@turf/turf";
+
+import {
+  HAZARD_CATEGORIES,
+  HAZARD_SEVERITIES,
+  hazardLabel,
+  isHazardActiveAt,
+  isHazardExpiredAt,
+  type HazardFeature,
+} from "./hazards";
+import type { LngLat } from "./routing";
+
+/* ---------- Route hazard exposure ---------- */
+export type RouteExposure = {
+  nearMeters: number; // route length within the radius of any hazard
+  closestMeters: number | null; // null when there are no hazards
+};
+
+export type HazardEncounter = {
+  hazardId: string;
+  crosses: boolean;
+  closestMeters: number;
+  // Along the route: first entry when it crosses, else the closest approach
+  atMeters: number;
+  point: LngLat;
+};
+
+// Route samples are at least this far apart (long routes use fewer)
+const MIN_SAMPLE_KM = 0.02;
+const MAX_SAMPLES = 1500;
+
+type PreparedHazard = {
+  polygon: GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon>;
+  rings: GeoJSON.Feature<GeoJSON.LineString>[];
+  bbox: number[];
+};
+
+function prepare(h: HazardFeature): PreparedHazard {
+  const polys =
+    h.geometry.type === "Polygon"
+      ? [h.geometry.coordinates]
+      : h.geometry.coordinates;
+  return {
+    polygon: turf.feature(h.geometry),
+    rings: polys.flatMap((rings) => rings.map((r) => turf.lineString(r))),
+    bbox: turf.bbox(h.geometry),
+  };
+}
+
+// Distance to the hazard's bbox never exceeds the distance to the hazard
+function bboxMeters(p: LngLat, bbox: number[]) {
+  const q: LngLat = [
+    Math.min(Math.max(p[0], bbox[0]), bbox[2]),
+    Math.min(Math.max(p[1], bbox[1]), bbox[3]),
+  ];
+  return turf.distance(p, q, { units: "meters" });
+}
+
+function hazardMeters(p: LngLat, h: PreparedHazard) {
+  if (turf.booleanPointInPolygon(p, h.polygon)) return 0;
+  let best = Infinity;
+  for (const ring of h.rings)
+    best = Math.min(
+      best,
+      turf.pointToLineDistance(p, ring, { units: "meters" })
+    );
+  return best;
+}
+
+// Points at the middle of n equal intervals along the route
+function midSamples(geometry: LngLat[], n: number, totalKm: number): LngLat[] {
+  const out: LngLat[] = [];
+  const stepKm = totalKm / n;
+  let i = 1;
+  let walked = 0; // km up to geometry[i - 1]
+  let segKm = turf.distance(geometry[0], geometry[1]);
+  for (let k = 0; k < n; k++) {
+    const at = (k + 0.5) * stepKm;
+    while (walked + segKm < at && i < geometry.length - 1) {
+      walked += segKm;
+      i++;
+      segKm = turf.distance(geometry[i - 1], geometry[i]);
+    }
+    const t = segKm ? Math.min(1, (at - walked) / segKm) : 0;
+    const [a, b] = [geometry[i - 1], geometry[i]];
+    out.push([a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t]);
+  }
+  return out;
+}
+
+/* ---------- Cached per route ---------- */
+// Routes and hazards don't change in place, so a route's samples and each
+// hazard's result along it (by id and version) are kept for as long as the
+// route is: a change to one hazard only recomputes that hazard
+type SampledRoute = {
+  points: LngLat[];
+  stepKm: number;
+  bbox: number[];
+  results: Map<string, unknown>;
+};
+
+const sampledRoutes = new WeakMap<LngLat[], SampledRoute>();
+
+function sampled(geometry: LngLat[]): SampledRoute {
+  let route = sampledRoutes.get(geometry);
+  if (!route) {
+    const line = turf.lineString(geometry);
+    const totalKm = turf.length(line);
+    const n = Math.max(
+      1,
+      Math.min(MAX_SAMPLES, Math.ceil(totalKm / MIN_SAMPLE_KM))
+    );
+    route = {
+      points: midSamples(geometry, n, totalKm),
+      stepKm: totalKm / n,
+      bbox: turf.bbox(line),
+      results: new Map(),
+    };
+    sampledRoutes.set(geometry, route);
+  }
+  return route;
+}
+
+function perHazard<T>(
+  route: SampledRoute,
+  kind: string,
+  h: HazardFeature,
+  compute: () => T
+): T {
+  const key = `${kind}:${h.id}@${h.properties.version}`;
+  if (!route.results.has(key)) route.results.set(key, compute());
+  return route.results.get(key) as T;
+}
+
+// Roughly the gap between two bboxes, measured from the point of `b` nearest
+// `a` (at the latitude where a degree of longitude is shortest). Hazards
+// further than the radius from the route's bbox are skipped unsampled
+function bboxGapMeters(a: number[], b: number[]) {
+  const x = b[2] < a[0] ? b[2] : b[0] > a[2] ? b[0] : Math.max(a[0], b[0]);
+  const [lo, hi] = [Math.max(a[1], b[1]), Math.min(a[3], b[3])];
+  const y =
+    b[3] < a[1]
+      ? b[3]
+      : b[1] > a[3]
+        ? b[1]
+        : Math.abs(lo) > Math.abs(hi)
+          ? lo
+          : hi;
+  return bboxMeters([x, y], a);
+}
+
+// One hazard along the route: the samples within the radius, the closest
+// sample and the first one inside
+type HazardPass = {
+  near: number[];
+  closest: number;
+  closestAt: number;
+  firstInside: number; // -1 when the route doesn't cross it
+};
+
+function hazardPass(
+  route: SampledRoute,
+  hazard: HazardFeature,
+  radiusMeters: number
+): HazardPass {
+  return perHazard(route, `pass:${radiusMeters}`, hazard, () => {
+    const h = prepare(hazard);
+    const out: HazardPass = {
+      near: [],
+      closest: Infinity,
+      closestAt: -1,
+      firstInside: -1,
+    };
+    route.points.forEach((p, k) => {
+      const bound = bboxMeters(p, h.bbox);
+      if (bound > radiusMeters && bound >= out.closest) return;
+      const d = hazardMeters(p, h);
+      if (d <= radiusMeters) out.near.push(k);
+      if (d === 0 && out.firstInside < 0) out.firstInside = k;
+      if (d < out.closest) {
+        out.closest = d;
+        out.closestAt = k;
+      }
+    });
+    return out;
+  });
+}
+
+export function routeExposure(
+  geometry: LngLat[],
+  hazards: HazardFeature[],
+  radiusMeters: number
+): RouteExposure {
+  if (geometry.length < 2 || !hazards.length)
+    return { nearMeters: 0, closestMeters: null };
+  const route = sampled(geometry);
+  // Nearest bboxes first, so far hazards are skipped once one is closer
+  const byGap = hazards
+    .map((h) => ({ h, gap: bboxGapMeters(route.bbox, turf.bbox(h.geometry)) }))
+    .sort((a, b) => a.gap - b.gap);
+
+  const near = new Set<number>();
+  let closest = Infinity;
+  for (const { h, gap } of byGap) {
+    if (gap > radiusMeters && gap >= closest) break;
+    const pass = hazardPass(route, h, radiusMeters);
+    for (const k of pass.near) near.add(k);
+    closest = Math.min(closest, pass.closest);
+  }
+  // Each sample stands for one interval of route
+  return {
+    nearMeters: near.size * route.stepKm * 1000,
+    closestMeters: closest,
+  };
+}
+
+/* ---------- Soft hazards ---------- */
+// Seconds added to a route's travel time for driving through "discourage"
+// zones: each zone's weight in minutes per km inside it
+export function discouragePenalty(
+  geometry: LngLat[],
+  hazards: HazardFeature[]
+): number {
+  const soft = hazards.filter((h) => h.properties.avoidance === "discourage");
+  if (geometry.length < 2 || !soft.length) return 0;
+  const route = sampled(geometry);
+  let penalty = 0;
+  for (const hazard of soft) {
+    if (bboxGapMeters(route.bbox, turf.bbox(hazard.geometry)) > 0) continue;
+    const inside = perHazard(route, "inside", hazard, () => {
+      const h = prepare(hazard);
+      return route.points.filter(
+        (p) =>
+          bboxMeters(p, h.bbox) === 0 &&
+          turf.booleanPointInPolygon(p, h.polygon)
+      ).length;
+    });
+    penalty += inside * route.stepKm * hazard.properties.weight * 60;
+  }
+  return penalty;
+}
+
+// Lower is better: travel time plus the discourage-zone penalty
+export function routeScore(
+  route: { geometry: LngLat[]; summary: { duration: number } },
+  hazards: HazardFeature[]
+) {
+  return route.summary.duration + discouragePenalty(route.geometry, hazards);
+}
+
+/* ---------- Per-hazard report ---------- */
+// Every hazard the route crosses or passes within the radius of, in route order
+export function hazardEncounters(
+  geometry: LngLat[],
+  hazards: HazardFeature[],
+  radiusMeters: number
+): HazardEncounter[] {
+  if (geometry.length < 2 || !hazards.length) return [];
+  const route = sampled(geometry);
+
+  const out: HazardEncounter[] = [];
+  for (const hazard of hazards) {
+    const gap = bboxGapMeters(route.bbox, turf.bbox(hazard.geometry));
+    if (gap > radiusMeters) continue;
+    const pass = hazardPass(route, hazard, radiusMeters);
+    if (pass.closest > radiusMeters) continue;
+    // First entry when it crosses, else the closest approach
+    const k = pass.firstInside >= 0 ? pass.firstInside : pass.closestAt;
+    out.push({
+      hazardId: hazard.id,
+      crosses: pass.firstInside >= 0,
+      closestMeters: pass.closest,
+      atMeters: (k + 0.5) * route.stepKm * 1000,
+      point: route.points[k],
+    });
+  }
+  return out.sort((a, b) => a.atMeters - b.atMeters);
+}
+
+function csvCell(v: string | number) {
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+// One row per encounter for sign-off; status is judged at the departure time
+export function encountersCsv(
+  encounters: HazardEncounter[],
+  hazards: HazardFeature[],
+  time: number
+) {
+  const byId = new Map(hazards.map((h) => [h.id, h]));
+  const rows = [
+    [
+      "km_along_route",
+      "hazard_id",
+      "title",
+      "category",
+      "severity",
+      "status",
+      "crosses",
+      "closest_m",
+      "lat",
+      "lng",
+    ],
+  ];
+  for (const e of encounters) {
+    const h = byId.get(e.hazardId);
+    if (!h) continue;
+    const status = isHazardActiveAt(h.properties, time)
+      ? "active"
+      : isHazardExpiredAt(h.properties, time)
+        ? "expired"
+        : "scheduled";
+    rows.push([
+      (e.atMeters / 1000).toFixed(2),
+      h.id,
+      hazardLabel(h),
+      HAZARD_CATEGORIES[h.properties.category]?.label ?? h.properties.category,
+      HAZARD_SEVERITIES[h.properties.severity]?.label ?? h.properties.severity,
+      status,
+      e.crosses ? "yes" : "no",
+      Math.round(e.closestMeters).toString(),
+      e.point[1].toFixed(6),
+      e.point[0].toFixed(6),
+    ]);
+  }
+  return rows.map((r) => r.map(csvCell).join(",")).join("\n") + "\n";
+}
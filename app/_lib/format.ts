@@ -0,0 +1,26 @@
+/* ---------- Display & input formatting ---------- */
+
+// <input type="datetime-local"> works in local time without a zone suffix
+export function toLocalInput(iso: string | null) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+}
+
+export function fromLocalInput(value: string) {
+  return value ? new Date(value).toISOString() : null;
+}
+
+export function formatDistance(meters: number) {
+  return meters >= 1000
+    ? `${(meters / 1000).toFixed(meters >= 10_000 ? 0 : 1)} km`
+    : `${Math.round(meters)} m`;
+}
+
+export function formatDuration(seconds: number) {
+  const mins = Math.round(seconds / 60);
+  if (mins < 60) return `${mins} min`;
+  return `${Math.floor(mins / 60)} h ${mins % 60} min`;
+}
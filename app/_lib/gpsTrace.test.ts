@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+
+import { readTraceFile } from "./gpsTrace";
+
+const point = (coordinates: unknown, time: string) => ({
+  type: "Feature",
+  geometry: { type: "Point", coordinates },
+  properties: { time },
+});
+
+function file(data: unknown) {
+  return new File([JSON.stringify(data)], "trace.geojson");
+}
+
+describe("readTraceFile (GeoJSON)", () => {
+  it("skips fixes without a valid position", async () => {
+    const fixes = await readTraceFile(
+      file({
+        type: "FeatureCollection",
+        features: [
+          point([13.4, 52.5], "2026-01-01T00:00:02Z"),
+          point(["x", 52.5], "2026-01-01T00:00:03Z"),
+          point([13.4, 95], "2026-01-01T00:00:04Z"),
+          point([], "2026-01-01T00:00:05Z"),
+          point([13.5, 52.6], "2026-01-01T00:00:01Z"),
+        ],
+      })
+    );
+    expect(fixes.map((f) => [f.lng, f.lat])).toEqual([
+      [13.5, 52.6],
+      [13.4, 52.5],
+    ]);
+  });
+
+  it("skips bad vertices of timed lines", async () => {
+    const fixes = await readTraceFile(
+      file({
+        type: "Feature",
+        geometry: {
+          type: "LineString",
+          coordinates: [
+            [13.4, 52.5],
+            [null, 52.5],
+            [13.41, 52.51],
+          ],
+        },
+        properties: {
+          coordinateProperties: {
+            times: [
+              "2026-01-01T00:00:00Z",
+              "2026-01-01T00:00:01Z",
+              "2026-01-01T00:00:02Z",
+            ],
+          },
+        },
+      })
+    );
+    expect(fixes).toHaveLength(2);
+  });
+
+  it("rejects a trace left with fewer than two fixes", async () => {
+    await expect(
+      readTraceFile(
+        file({
+          type: "FeatureCollection",
+          features: [
+            point([13.4, 52.5], "2026-01-01T00:00:00Z"),
+            point([NaN, 0], "2026-01-01T00:00:01Z"),
+          ],
+        })
+      )
+    ).rejects.toThrow(/no timestamped track points/);
+  });
+});
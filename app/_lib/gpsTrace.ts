@@ -0,0 +1,129 @@
+import { escapeXml, parseXml } from "./hazardFormats";
+import { isPosition } from "./hazards";
+
+/* ---------- Recorded GPS traces ---------- */
+export type TraceFix = {
+  time: number; // ms since epoch
+  lat: number;
+  lng: number;
+  accuracy?: number; // metres
+  speed?: number; // m/s
+  heading?: number; // degrees from north
+};
+
+function finite(v: unknown) {
+  const n = typeof v === "string" ? parseFloat(v) : v;
+  return typeof n === "number" && Number.isFinite(n) ? n : undefined;
+}
+
+// Speed, course and accuracy go in <extensions>; Garmin's
+// TrackPointExtension and GPX 1.0 use the same element names
+export function traceToGpx(fixes: TraceFix[], name = "GPS trace") {
+  const points = fixes
+    .map((f) => {
+      const ext = [
+        f.accuracy != null && `<accuracy>${f.accuracy}</accuracy>`,
+        f.speed != null && `<speed>${f.speed}</speed>`,
+        f.heading != null && `<course>${f.heading}</course>`,
+      ]
+        .filter(Boolean)
+        .join("");
+      return (
+        `<trkpt lat="${f.lat}" lon="${f.lng}">` +
+        `<time>${new Date(f.time).toISOString()}</time>` +
+        (ext ? `<extensions>${ext}</extensions>` : "") +
+        `</trkpt>`
+      );
+    })
+    .join("\n");
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<gpx version="1.1" creator="hazard-map" xmlns="http://www.topografix.com/GPX/1/1">\n` +
+    `<trk><name>${escapeXml(name)}</name><trkseg>\n${points}\n</trkseg></trk>\n</gpx>\n`
+  );
+}
+
+function childValue(el: Element, localName: string) {
+  const all = el.getElementsByTagName("*");
+  for (let i = 0; i < all.length; i++)
+    if (all[i].localName === localName) return all[i].textContent;
+  return undefined;
+}
+
+function gpxFixes(text: string): TraceFix[] {
+  const pts = parseXml(text).getElementsByTagName("trkpt");
+  const out: TraceFix[] = [];
+  for (let i = 0; i < pts.length; i++) {
+    const pt = pts[i];
+    const lat = finite(pt.getAttribute("lat"));
+    const lng = finite(pt.getAttribute("lon"));
+    const time = Date.parse(childValue(pt, "time") ?? "");
+    if (lat == null || lng == null || Number.isNaN(time)) continue;
+    if (!isPosition([lng, lat])) continue;
+    out.push({
+      time,
+      lat,
+      lng,
+      accuracy: finite(childValue(pt, "accuracy")),
+      speed: finite(childValue(pt, "speed")),
+      heading: finite(childValue(pt, "course")),
+    });
+  }
+  return out;
+}
+
+// Point features with a time property, or lines with per-vertex times
+// (coordinateProperties.times, as written by togeojson)
+function geojsonFixes(data: any): TraceFix[] {
+  const features: any[] =
+    data?.type === "FeatureCollection"
+      ? (data.features ?? [])
+      : data?.type === "Feature"
+        ? [data]
+        : [];
+  const out: TraceFix[] = [];
+  for (const f of features) {
+    const p = f?.properties ?? {};
+    const g = f?.geometry;
+    if (g?.type === "Point") {
+      const time = Date.parse(p.time ?? p.timestamp ?? "");
+      if (!isPosition(g.coordinates) || Number.isNaN(time)) continue;
+      out.push({
+        time,
+        lat: g.coordinates[1],
+        lng: g.coordinates[0],
+        accuracy: finite(p.accuracy),
+        speed: finite(p.speed),
+        heading: finite(p.heading ?? p.course),
+      });
+    } else if (g?.type === "LineString" || g?.type === "MultiLineString") {
+      const lines = g.type === "LineString" ? [g.coordinates] : g.coordinates;
+      const times = p.coordinateProperties?.times ?? p.times;
+      const timeLines = g.type === "LineString" ? [times] : (times ?? []);
+      lines.forEach((line: unknown, li: number) => {
+        if (!Array.isArray(line)) return;
+        line.forEach((pos: unknown, k) => {
+          const time = Date.parse(timeLines[li]?.[k] ?? "");
+          if (isPosition(pos) && !Number.isNaN(time))
+            out.push({ time, lat: pos[1], lng: pos[0] });
+        });
+      });
+    }
+  }
+  return out;
+}
+
+// Reads a GPX or GeoJSON trace, in time order; fixes without a time or a
+// valid position are dropped
+export async function readTraceFile(file: File): Promise<TraceFix[]> {
+  const text = await file.text();
+  const ext = file.name.toLowerCase().split(".").pop();
+  const fixes =
+    ext === "gpx" || /<gpx[\s>]/i.test(text)
+      ? gpxFixes(text)
+      : geojsonFixes(JSON.parse(text));
+  if (fixes.length < 2) {
+    throw new Error(`${file.name} has no timestamped track points.`);
+  }
+  return fixes.sort((a, b) => a.time - b.time);
+}
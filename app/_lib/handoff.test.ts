@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+
+import { findDetours, pickVias, type Detour } from "./handoff";
+
+describe("findDetours", () => {
+  it("finds where the route bulges away from the shortest path", () => {
+    const detours = findDetours(
+      [
+        [0, 0],
+        [0.005, 0.005],
+        [0.01, 0],
+      ],
+      [
+        [0, 0],
+        [0.01, 0],
+      ]
+    );
+    expect(detours).toHaveLength(1);
+    const [lng, lat] = detours[0].point;
+    expect(lng).toBeCloseTo(0.005, 3);
+    expect(lat).toBeCloseTo(0.005, 3);
+    expect(detours[0].deviationMeters).toBeGreaterThan(500);
+  });
+
+  it("finds none when the route is the shortest path", () => {
+    const line: [number, number][] = [
+      [0, 0],
+      [0.01, 0],
+    ];
+    expect(findDetours(line, line)).toEqual([]);
+  });
+});
+
+describe("pickVias", () => {
+  const detour = (alongMeters: number, deviationMeters: number): Detour => ({
+    point: [alongMeters, 0],
+    alongMeters,
+    deviationMeters,
+  });
+
+  it("keeps stops first, then the largest detours, in route order", () => {
+    const { via, missedStops, missedDetours } = pickVias(
+      [{ point: [300, 0], alongMeters: 300 }],
+      [detour(100, 80), detour(200, 900), detour(400, 500)],
+      3
+    );
+    expect(via.map((p) => p.lng)).toEqual([200, 300, 400]);
+    expect(missedStops).toBe(0);
+    expect(missedDetours).toBe(1);
+  });
+
+  it("reports stops that don't fit", () => {
+    const stops = [1, 2, 3].map((n) => ({
+      point: [n, 0] as [number, number],
+      alongMeters: n,
+    }));
+    expect(pickVias(stops, [detour(5, 100)], 2)).toMatchObject({
+      missedStops: 1,
+      missedDetours: 1,
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import * as turf from "@turf/turf";
+
+import { TRAVEL_PROFILES, type LngLat, type TravelProfile } from "./routing";
+
+/* ---------- Hand-off to navigation apps ---------- */
+export type HandOffTarget = "google" | "waze" | "apple" | "osmand" | "organic";
+
+type LatLng = { lat: number; lng: number };
+
+const ll = (p: LatLng) => `${p.lat},${p.lng}`;
+
+const OSMAND_PROFILES: Record<TravelProfile, string> = {
+  car: "car",
+  hgv: "truck",
+  bike: "bicycle",
+  foot: "pedestrian",
+};
+
+const ORGANIC_MAPS_TYPES: Record<TravelProfile, string> = {
+  car: "vehicle",
+  hgv: "vehicle",
+  bike: "bicycle",
+  foot: "pedestrian",
+};
+
+// maxVia: how many intermediate points each app's link accepts
+export const HANDOFF_TARGETS: Record<
+  HandOffTarget,
+  {
+    label: string;
+    maxVia: number;
+    url: (
+      origin: LatLng,
+      dest: LatLng,
+      via: LatLng[],
+      profile: TravelProfile
+    ) => string;
+  }
+> = {
+  google: {
+    label: "Google Maps",
+    maxVia: 9,
+    url: (origin, dest, via, profile) => {
+      const url = new URL("https://www.google.com/maps/dir/");
+      url.searchParams.set("api", "1");
+      url.searchParams.set("travelmode", TRAVEL_PROFILES[profile].gmapsMode);
+      url.searchParams.set("origin", ll(origin));
+      url.searchParams.set("destination", ll(dest));
+      if (via.length) url.searchParams.set("waypoints", via.map(ll).join("|"));
+      return url.toString();
+    },
+  },
+  // Waze always starts from the device's position
+  waze: {
+    label: "Waze",
+    maxVia: 0,
+    url: (_origin, dest) => `https://waze.com/ul?ll=${ll(dest)}&navigate=yes`,
+  },
+  apple: {
+    label: "Apple Maps",
+    maxVia: 0,
+    url: (origin, dest, _via, profile) =>
+      `https://maps.apple.com/?saddr=${ll(origin)}&daddr=${ll(dest)}` +
+      `&dirflg=${profile === "foot" ? "w" : "d"}`,
+  },
+  osmand: {
+    label: "OsmAnd",
+    maxVia: 10,
+    url: (origin, dest, via, profile) => {
+      const url = new URL("https://osmand.net/map/navigate/");
+      url.searchParams.set("start", ll(origin));
+      url.searchParams.set("finish", ll(dest));
+      if (via.length) url.searchParams.set("via", via.map(ll).join(";"));
+      url.searchParams.set("profile", OSMAND_PROFILES[profile]);
+      return url.toString();
+    },
+  },
+  organic: {
+    label: "Organic Maps",
+    maxVia: 0,
+    url: (origin, dest, _via, profile) =>
+      `om://route?sll=${ll(origin)}&saddr=Start&dll=${ll(dest)}` +
+      `&daddr=Destination&type=${ORGANIC_MAPS_TYPES[profile]}`,
+  },
+};
+
+/* ---------- Via points at our detours ---------- */
+// Stretches of our route at least this far from the shortest path are detours
+const DETOUR_MIN_M = 50;
+const DETOUR_SAMPLE_M = 50;
+const MAX_DETOUR_SAMPLES = 1000;
+
+export type Detour = {
+  point: LngLat; // where the detour is furthest from the shortest path
+  alongMeters: number;
+  deviationMeters: number;
+};
+
+export function findDetours(route: LngLat[], shortest: LngLat[]): Detour[] {
+  if (route.length < 2 || shortest.length < 2) return [];
+  const line = turf.lineString(route);
+  const other = turf.simplify(turf.lineString(shortest), { tolerance: 0.0001 });
+  const total = turf.length(line, { units: "meters" });
+  const n = Math.min(
+    MAX_DETOUR_SAMPLES,
+    Math.max(2, Math.ceil(total / DETOUR_SAMPLE_M))
+  );
+
+  const detours: Detour[] = [];
+  let current: Detour | null = null;
+  for (let k = 0; k <= n; k++) {
+    const at = (total * k) / n;
+    const p = turf.along(line, at, { units: "meters" }).geometry
+      .coordinates as LngLat;
+    const d = turf.pointToLineDistance(p, other, { units: "meters" });
+    if (d < DETOUR_MIN_M) {
+      current = null;
+      continue;
+    }
+    if (!current) {
+      current = { point: p, alongMeters: at, deviationMeters: d };
+      detours.push(current);
+    } else if (d > current.deviationMeters) {
+      Object.assign(current, { point: p, alongMeters: at, deviationMeters: d });
+    }
+  }
+  return detours;
+}
+
+// Stops come first; the largest detours fill what is left. Returned in route order
+export function pickVias(
+  stops: { point: LngLat; alongMeters: number }[],
+  detours: Detour[],
+  maxVia: number
+) {
+  const keptStops = stops.slice(0, maxVia);
+  const keptDetours = [...detours]
+    .sort((a, b) => b.deviationMeters - a.deviationMeters)
+    .slice(0, Math.max(0, maxVia - keptStops.length));
+  return {
+    via: [...keptStops, ...keptDetours]
+      .sort((a, b) => a.alongMeters - b.alongMeters)
+      .map(({ point: [lng, lat] }) => ({ lat, lng })),
+    missedStops: stops.length - keptStops.length,
+    missedDetours: detours.length - keptDetours.length,
+  };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+
+import { serializeHazards } from "./hazardFormats";
+import { DEFAULT_HAZARD_DRAFT, type HazardFeature } from "./hazards";
+
+const hazard: HazardFeature = {
+  type: "Feature",
+  id: "h1",
+  geometry: {
+    type: "Polygon",
+    coordinates: [
+      [
+        [0, 0],
+        [1, 0],
+        [1, 1],
+        [0, 0],
+      ],
+    ],
+  },
+  properties: {
+    ...DEFAULT_HAZARD_DRAFT,
+    title: "Flood",
+    status: "approved",
+    confirmedBy: ["ann", "bob"],
+    disputedBy: [],
+    reviewedBy: "mod",
+    proposal: { properties: { title: "Dry" }, by: "cy", at: "" },
+    createdAt: "",
+    updatedAt: "",
+    updatedBy: "",
+    version: 3,
+  },
+};
+
+describe("serializeHazards to KML", () => {
+  it("exports the report without its review state", () => {
+    const { content } = serializeHazards([hazard], "kml");
+    expect(content).toContain('<Data name="title"><value>Flood</value></Data>');
+    for (const key of ["status", "confirmedBy", "reviewedBy", "proposal"])
+      expect(content).not.toContain(`<Data name="${key}">`);
+    expect(content).not.toContain("[object Object]");
+  });
+});
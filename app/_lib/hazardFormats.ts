@@ -0,0 +1,202 @@
+import { gpx, kml } from "@tmcw/togeojson";
+
+import {
+  HAZARD_CATEGORIES,
+  HAZARD_SEVERITIES,
+  hazardLabel,
+  parseHazardDraft,
+  type HazardDraft,
+  type HazardFeature,
+} from "./hazards";
+
+export type HazardFileFormat = "geojson" | "kml" | "gpx";
+
+/* ---------- Import ---------- */
+function detectFormat(name: string, text: string): HazardFileFormat | null {
+  const ext = name.toLowerCase().split(".").pop();
+  if (ext === "geojson" || ext === "json") return "geojson";
+  if (ext === "kml") return "kml";
+  if (ext === "gpx") return "gpx";
+  const head = text.trimStart().slice(0, 200);
+  if (head.startsWith("{")) return "geojson";
+  if (/<kml[\s>]/i.test(text)) return "kml";
+  if (/<gpx[\s>]/i.test(text)) return "gpx";
+  return null;
+}
+
+export function parseXml(text: string) {
+  const doc = new DOMParser().parseFromString(text, "text/xml");
+  if (doc.getElementsByTagName("parsererror").length) {
+    throw new Error("File is not valid XML.");
+  }
+  return doc;
+}
+
+function geojsonFeatures(data: any): GeoJSON.Feature[] {
+  if (data?.type === "FeatureCollection") return data.features ?? [];
+  if (data?.type === "Feature") return [data];
+  if (data?.type) return [{ type: "Feature", geometry: data, properties: {} }];
+  throw new Error("File is not GeoJSON.");
+}
+
+// Reads a GeoJSON, KML or GPX file into plain GeoJSON features (any geometry)
+export async function readHazardFile(file: File): Promise<GeoJSON.Feature[]> {
+  const text = await file.text();
+  const format = detectFormat(file.name, text);
+  let features: GeoJSON.Feature<GeoJSON.Geometry | null>[];
+  if (format === "geojson") features = geojsonFeatures(JSON.parse(text));
+  else if (format === "kml") features = kml(parseXml(text)).features;
+  else if (format === "gpx") features = gpx(parseXml(text)).features;
+  else throw new Error(`Unsupported file type: ${file.name}`);
+  return features.filter((f): f is GeoJSON.Feature => !!f?.geometry);
+}
+
+// Maps properties from our own exports or from Google Earth / QGIS onto a draft
+export function importedDraft(props: any): Partial<HazardDraft> {
+  const p = props ?? {};
+  const draft = parseHazardDraft(p);
+  if (!draft.title && typeof p.name === "string") draft.title = p.name;
+  if (!draft.notes && typeof p.description === "string")
+    draft.notes = p.description;
+  if (!draft.notes && typeof p.desc === "string") draft.notes = p.desc;
+  return parseHazardDraft(draft);
+}
+
+/* ---------- Export ---------- */
+export function escapeXml(s: string) {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function polygonsOf(h: HazardFeature): number[][][][] {
+  return h.geometry.type === "Polygon"
+    ? [h.geometry.coordinates]
+    : h.geometry.coordinates;
+}
+
+function kmlRing(ring: number[][]) {
+  return `<LinearRing><coordinates>${ring
+    .map(([lng, lat]) => `${lng},${lat}`)
+    .join(" ")}</coordinates></LinearRing>`;
+}
+
+function kmlPolygon(rings: number[][][]) {
+  const [outer, ...holes] = rings;
+  return (
+    `<Polygon><outerBoundaryIs>${kmlRing(outer)}</outerBoundaryIs>` +
+    holes
+      .map((r) => `<innerBoundaryIs>${kmlRing(r)}</innerBoundaryIs>`)
+      .join("") +
+    `</Polygon>`
+  );
+}
+
+function toKml(hazards: HazardFeature[]) {
+  const styles = Object.entries(HAZARD_CATEGORIES)
+    .map(([key, c]) => {
+      // KML colours are aabbggrr
+      const [r, g, b] = [1, 3, 5].map((i) => c.color.slice(i, i + 2));
+      return (
+        `<Style id="${key}"><LineStyle><color>ff${b}${g}${r}</color><width>2</width></LineStyle>` +
+        `<PolyStyle><color>55${b}${g}${r}</color></PolyStyle></Style>`
+      );
+    })
+    .join("");
+  const placemarks = hazards
+    .map((h) => {
+      const polys = polygonsOf(h).map(kmlPolygon);
+      // Review state stays with the server it came from; the lists and the
+      // pending proposal don't fit a KML text value anyway
+      const {
+        status: _s,
+        confirmedBy: _c,
+        disputedBy: _d,
+        reviewedBy: _r,
+        proposal: _p,
+        ...report
+      } = h.properties;
+      const data = Object.entries(report)
+        .map(
+          ([k, v]) =>
+            `<Data name="${escapeXml(k)}"><value>${escapeXml(
+              String(v ?? "")
+            )}</value></Data>`
+        )
+        .join("");
+      return (
+        `<Placemark id="${escapeXml(h.id)}">` +
+        `<name>${escapeXml(hazardLabel(h))}</name>` +
+        `<description>${escapeXml(h.properties.notes)}</description>` +
+        `<styleUrl>#${h.properties.category}</styleUrl>` +
+        `<ExtendedData>${data}</ExtendedData>` +
+        (polys.length === 1
+          ? polys[0]
+          : `<MultiGeometry>${polys.join("")}</MultiGeometry>`) +
+        `</Placemark>`
+      );
+    })
+    .join("\n");
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<kml xmlns="http://www.opengis.net/kml/2.2"><Document><name>Hazards</name>${styles}\n` +
+    `${placemarks}\n</Document></kml>\n`
+  );
+}
+
+// GPX has no polygons: each outer ring becomes a closed track
+function toGpx(hazards: HazardFeature[]) {
+  const tracks = hazards
+    .flatMap((h) =>
+      polygonsOf(h).map((rings) => {
+        const severity = HAZARD_SEVERITIES[h.properties.severity]?.label;
+        return (
+          `<trk><name>${escapeXml(hazardLabel(h))}</name>` +
+          `<desc>${escapeXml(h.properties.notes)}</desc>` +
+          `<type>${escapeXml(
+            `${h.properties.category}/${severity ?? h.properties.severity}`
+          )}</type>` +
+          `<trkseg>${rings[0]
+            .map(([lng, lat]) => `<trkpt lat="${lat}" lon="${lng}"/>`)
+            .join("")}</trkseg></trk>`
+        );
+      })
+    )
+    .join("\n");
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<gpx version="1.1" creator="hazard-map" xmlns="http://www.topografix.com/GPX/1/1">\n` +
+    `${tracks}\n</gpx>\n`
+  );
+}
+
+export function serializeHazards(
+  hazards: HazardFeature[],
+  format: HazardFileFormat
+): { content: string; mime: string; ext: string } {
+  if (format === "kml")
+    return {
+      content: toKml(hazards),
+      mime: "application/vnd.google-earth.kml+xml",
+      ext: "kml",
+    };
+  if (format === "gpx")
+    return { content: toGpx(hazards), mime: "application/gpx+xml", ext: "gpx" };
+  const fc = { type: "FeatureCollection", features: hazards };
+  return {
+    content: JSON.stringify(fc, null, 2),
+    mime: "application/geo+json",
+    ext: "geojson",
+  };
+}
+
+export function downloadText(filename: string, mime: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  DEFAULT_HAZARD_DRAFT,
+  isHazardGeometry,
+  parseHazardDraft,
+  reviewHazard,
+  type HazardFeature,
+  type HazardProperties,
+} from "./hazards";
+
+const square = {
+  type: "Polygon",
+  coordinates: [
+    [
+      [0, 0],
+      [1, 0],
+      [1, 1],
+      [0, 1],
+      [0, 0],
+    ],
+  ],
+};
+
+function hazard(props: Partial<HazardProperties> = {}): HazardFeature {
+  return {
+    type: "Feature",
+    id: "h1",
+    geometry: square as GeoJSON.Polygon,
+    properties: {
+      ...DEFAULT_HAZARD_DRAFT,
+      status: "pending",
+      confirmedBy: [],
+      disputedBy: [],
+      reviewedBy: "",
+      proposal: null,
+      createdAt: "",
+      updatedAt: "",
+      updatedBy: "",
+      version: 1,
+      ...props,
+    },
+  };
+}
+
+describe("isHazardGeometry", () => {
+  it("accepts closed polygons and multipolygons", () => {
+    expect(isHazardGeometry(square)).toBe(true);
+    expect(
+      isHazardGeometry({
+        type: "MultiPolygon",
+        coordinates: [square.coordinates],
+      })
+    ).toBe(true);
+  });
+
+  it("rejects rings that are empty, short or open", () => {
+    const [a, b, c, d] = square.coordinates[0];
+    for (const ring of [[], [a, b, a], [a, b, c, d]])
+      expect(isHazardGeometry({ type: "Polygon", coordinates: [ring] })).toBe(
+        false
+      );
+    expect(isHazardGeometry({ type: "Polygon", coordinates: [] })).toBe(false);
+    expect(isHazardGeometry({ type: "MultiPolygon", coordinates: [] })).toBe(
+      false
+    );
+  });
+
+  it("rejects positions that aren't finite lng/lat", () => {
+    for (const bad of [["0", 0], [NaN, 0], [181, 0], [0, -91], [0]]) {
+      const ring = [bad, [1, 0], [1, 1], bad];
+      expect(isHazardGeometry({ type: "Polygon", coordinates: [ring] })).toBe(
+        false
+      );
+    }
+  });
+
+  it("rejects other geometry types", () => {
+    expect(isHazardGeometry({ type: "Point", coordinates: [0, 0] })).toBe(
+      false
+    );
+    expect(isHazardGeometry(null)).toBe(false);
+  });
+});
+
+describe("parseHazardDraft", () => {
+  it("keeps known values and drops the rest", () => {
+    expect(
+      parseHazardDraft({
+        category: "flood",
+        severity: "bogus",
+        weight: "90",
+        validUntil: "2026-01-01T00:00:00Z",
+        status: "approved",
+      })
+    ).toEqual({
+      category: "flood",
+      weight: 60,
+      validUntil: "2026-01-01T00:00:00.000Z",
+    });
+  });
+
+  it("ignores inherited object keys", () => {
+    expect(
+      parseHazardDraft({
+        category: "toString",
+        severity: "constructor",
+        avoidance: "__proto__",
+      })
+    ).toEqual({});
+  });
+});
+
+describe("reviewHazard", () => {
+  it("replaces a user's opposite vote", () => {
+    const confirmed = reviewHazard(
+      hazard({ disputedBy: ["ann", "bob"] }),
+      "confirm",
+      "ann"
+    );
+    expect(confirmed?.properties.confirmedBy).toEqual(["ann"]);
+    expect(confirmed?.properties.disputedBy).toEqual(["bob"]);
+  });
+
+  it("moves the status only along allowed transitions", () => {
+    const approved = reviewHazard(hazard(), "approve", "mod");
+    expect(approved?.properties).toMatchObject({
+      status: "approved",
+      reviewedBy: "mod",
+    });
+    expect(reviewHazard(approved!, "resolve", "mod")?.properties.status).toBe(
+      "resolved"
+    );
+    expect(reviewHazard(hazard(), "resolve", "mod")).toBeNull();
+    expect(reviewHazard(hazard({ status: "resolved" }), "reject", "mod")).toBe(
+      null
+    );
+  });
+
+  it("applies an accepted proposal and clears the votes", () => {
+    const moved = {
+      ...square,
+      coordinates: [
+        [
+          [2, 2],
+          [3, 2],
+          [3, 3],
+          [2, 2],
+        ],
+      ],
+    };
+    const accepted = reviewHazard(
+      hazard({
+        status: "approved",
+        confirmedBy: ["ann"],
+        proposal: {
+          geometry: moved as GeoJSON.Polygon,
+          properties: { title: "Moved" },
+          by: "bob",
+          at: "",
+        },
+      }),
+      "acceptEdit",
+      "mod"
+    );
+    expect(accepted?.geometry).toEqual(moved);
+    expect(accepted?.properties).toMatchObject({
+      status: "approved",
+      title: "Moved",
+      confirmedBy: [],
+      reviewedBy: "mod",
+      proposal: null,
+    });
+  });
+
+  it("has no edit to accept or decline without a proposal", () => {
+    expect(reviewHazard(hazard(), "acceptEdit", "mod")).toBeNull();
+    expect(reviewHazard(hazard(), "declineEdit", "mod")).toBeNull();
+  });
+});
@@ -0,0 +1,376 @@
+/* ---------- Shared hazard types ---------- */
+export type Hazard = GeoJSON.Polygon | GeoJSON.MultiPolygon;
+
+export type HazardCategory =
+  "flood" | "roadworks" | "landslide" | "accident" | "closure" | "other";
+
+export type HazardSeverity = "low" | "medium" | "high" | "critical";
+
+// "block" hazards are hard avoid areas; "discourage" ones only add a cost
+export type HazardAvoidance = "block" | "discourage";
+
+// Report lifecycle: only approved reports steer routes
+export type HazardStatus = "pending" | "approved" | "rejected" | "resolved";
+
+export type HazardReviewAction =
+  | "confirm"
+  | "dispute"
+  | "approve"
+  | "reject"
+  | "resolve"
+  | "acceptEdit"
+  | "declineEdit";
+
+export type HazardProperties = {
+  category: HazardCategory;
+  severity: HazardSeverity;
+  title: string;
+  notes: string;
+  reporter: string;
+  avoidance: HazardAvoidance;
+  weight: number; // discourage only: extra minutes per km driven inside
+  validFrom: string | null; // ISO time, null = no bound
+  validUntil: string | null;
+  photo: string | null; // id of an uploaded photo
+  status: HazardStatus;
+  confirmedBy: string[]; // names of users who saw it too
+  disputedBy: string[];
+  reviewedBy: string; // moderator who set the current status
+  proposal: HazardProposal | null; // edit waiting for a moderator
+  createdAt: string;
+  updatedAt: string;
+  updatedBy: string; // name of whoever made the last change
+  version: number; // bumped on every change, for conflict checks
+};
+
+// A non-moderator's edit to a reviewed report; the report keeps steering
+// routes as it was until a moderator accepts the edit
+export type HazardProposal = {
+  geometry?: Hazard;
+  properties: Partial<HazardDraft>;
+  by: string;
+  at: string;
+};
+
+// Changed only through review actions
+export type HazardReview = Pick<
+  HazardProperties,
+  "status" | "confirmedBy" | "disputedBy" | "reviewedBy" | "proposal"
+>;
+
+// Fields a client may set; timestamps, versions and review state are owned
+// by the server
+export type HazardDraft = Omit<
+  HazardProperties,
+  keyof HazardReview | "createdAt" | "updatedAt" | "updatedBy" | "version"
+>;
+
+export type HazardFeature = GeoJSON.Feature<Hazard, HazardProperties> & {
+  id: string;
+};
+
+// Pushed to every connected client; `origin` is the tab that made the change,
+// `action` the review action behind an upsert, if any
+export type HazardEvent =
+  | {
+      type: "upsert";
+      hazard: HazardFeature;
+      by: string;
+      origin: string;
+      action?: HazardReviewAction;
+    }
+  | { type: "delete"; id: string; by: string; origin: string }
+  | { type: "clear"; by: string; origin: string };
+
+export type HazardCollection = GeoJSON.FeatureCollection<
+  Hazard,
+  HazardProperties
+> & { features: HazardFeature[] };
+
+/* ---------- Categories & severities ---------- */
+export const HAZARD_CATEGORIES: Record<
+  HazardCategory,
+  { label: string; color: string }
+> = {
+  flood: { label: "Flood", color: "#3b82f6" },
+  roadworks: { label: "Roadworks", color: "#f59e0b" },
+  landslide: { label: "Landslide", color: "#92400e" },
+  accident: { label: "Accident", color: "#ef4444" },
+  closure: { label: "Road closure", color: "#7c3aed" },
+  other: { label: "Other", color: "#6b7280" },
+};
+
+export const HAZARD_SEVERITIES: Record<
+  HazardSeverity,
+  { label: string; weight: number; fillOpacity: number }
+> = {
+  low: { label: "Low", weight: 1, fillOpacity: 0.12 },
+  medium: { label: "Medium", weight: 2, fillOpacity: 0.2 },
+  high: { label: "High", weight: 3, fillOpacity: 0.3 },
+  critical: { label: "Critical", weight: 4, fillOpacity: 0.4 },
+};
+
+export const HAZARD_AVOIDANCE: Record<HazardAvoidance, { label: string }> = {
+  block: { label: "Block" },
+  discourage: { label: "Discourage" },
+};
+
+export const MAX_HAZARD_WEIGHT = 60;
+
+// closed: off the map's working set (greyed like expired, never alerted)
+export const HAZARD_STATUSES: Record<
+  HazardStatus,
+  { label: string; color: string; closed: boolean }
+> = {
+  pending: { label: "Awaiting review", color: "#d97706", closed: false },
+  approved: { label: "Approved", color: "#16a34a", closed: false },
+  rejected: { label: "Rejected", color: "#dc2626", closed: true },
+  resolved: { label: "Resolved", color: "#6b7280", closed: true },
+};
+
+// from: statuses the action applies to; past: how it reads in activity;
+// proposal: only while an edit is waiting
+export const HAZARD_REVIEW_ACTIONS: Record<
+  HazardReviewAction,
+  {
+    label: string;
+    past: string;
+    moderator: boolean;
+    from: HazardStatus[];
+    proposal?: boolean;
+  }
+> = {
+  confirm: {
+    label: "Confirm",
+    past: "confirmed",
+    moderator: false,
+    from: ["pending", "approved"],
+  },
+  dispute: {
+    label: "Dispute",
+    past: "disputed",
+    moderator: false,
+    from: ["pending", "approved"],
+  },
+  approve: {
+    label: "Approve",
+    past: "approved",
+    moderator: true,
+    from: ["pending", "rejected", "resolved"],
+  },
+  reject: {
+    label: "Reject",
+    past: "rejected",
+    moderator: true,
+    from: ["pending", "approved"],
+  },
+  resolve: {
+    label: "Resolve",
+    past: "resolved",
+    moderator: true,
+    from: ["approved"],
+  },
+  acceptEdit: {
+    label: "Accept edit",
+    past: "accepted an edit to",
+    moderator: true,
+    from: ["pending", "approved", "rejected", "resolved"],
+    proposal: true,
+  },
+  declineEdit: {
+    label: "Decline edit",
+    past: "declined an edit to",
+    moderator: true,
+    from: ["pending", "approved", "rejected", "resolved"],
+    proposal: true,
+  },
+};
+
+// Whether `action` can be taken on a report as it stands
+export function canReview(
+  props: Pick<HazardProperties, "status" | "proposal">,
+  action: HazardReviewAction
+) {
+  const def = HAZARD_REVIEW_ACTIONS[action];
+  return def.from.includes(props.status) && (!def.proposal || !!props.proposal);
+}
+
+export const DEFAULT_HAZARD_DRAFT: HazardDraft = {
+  category: "other",
+  severity: "medium",
+  title: "",
+  notes: "",
+  reporter: "",
+  avoidance: "block",
+  weight: 5,
+  validFrom: null,
+  validUntil: null,
+  photo: null,
+};
+
+export function hazardStyle(
+  props: Pick<HazardProperties, "category" | "severity" | "avoidance">
+) {
+  const color = (HAZARD_CATEGORIES[props.category] ?? HAZARD_CATEGORIES.other)
+    .color;
+  const sev = HAZARD_SEVERITIES[props.severity] ?? HAZARD_SEVERITIES.medium;
+  return {
+    color,
+    weight: sev.weight,
+    fillColor: color,
+    fillOpacity: sev.fillOpacity,
+    dashArray: props.avoidance === "discourage" ? "2 6" : "",
+  };
+}
+
+export function hazardLabel(h: HazardFeature) {
+  return (
+    h.properties.title ||
+    `${(HAZARD_CATEGORIES[h.properties.category] ?? HAZARD_CATEGORIES.other).label} hazard`
+  );
+}
+
+/* ---------- Review ---------- */
+// The hazard after `by` takes `action`; null when it doesn't apply as the
+// report stands. A vote replaces that user's earlier opposite vote; an
+// accepted edit clears the votes, which were cast on the old content
+export function reviewHazard(
+  hazard: HazardFeature,
+  action: HazardReviewAction,
+  by: string
+): HazardFeature | null {
+  const p = hazard.properties;
+  if (!canReview(p, action)) return null;
+  const without = (names: string[]) => names.filter((n) => n !== by);
+  const next = (
+    props: Partial<HazardProperties>,
+    geometry = hazard.geometry
+  ) => ({
+    ...hazard,
+    geometry,
+    properties: { ...p, ...props },
+  });
+  switch (action) {
+    case "confirm":
+      return next({
+        confirmedBy: [...without(p.confirmedBy), by],
+        disputedBy: without(p.disputedBy),
+      });
+    case "dispute":
+      return next({
+        confirmedBy: without(p.confirmedBy),
+        disputedBy: [...without(p.disputedBy), by],
+      });
+    case "approve":
+      return next({ status: "approved", reviewedBy: by });
+    case "reject":
+      return next({ status: "rejected", reviewedBy: by });
+    case "resolve":
+      return next({ status: "resolved", reviewedBy: by });
+    case "acceptEdit":
+      return next(
+        {
+          ...p.proposal!.properties,
+          confirmedBy: [],
+          disputedBy: [],
+          reviewedBy: by,
+          proposal: null,
+        },
+        p.proposal!.geometry ?? hazard.geometry
+      );
+    case "declineEdit":
+      return next({ proposal: null });
+  }
+}
+
+/* ---------- Validity windows ---------- */
+export function isHazardActiveAt(
+  props: Pick<HazardProperties, "validFrom" | "validUntil">,
+  time: number
+) {
+  if (props.validFrom && Date.parse(props.validFrom) > time) return false;
+  if (props.validUntil && Date.parse(props.validUntil) < time) return false;
+  return true;
+}
+
+export function isHazardExpiredAt(
+  props: Pick<HazardProperties, "validUntil">,
+  time: number
+) {
+  return !!props.validUntil && Date.parse(props.validUntil) < time;
+}
+
+/* ---------- Validation ---------- */
+// A finite [lng, lat] within range
+export function isPosition(p: unknown): p is GeoJSON.Position {
+  if (!Array.isArray(p) || p.length < 2) return false;
+  const [lng, lat] = p;
+  return (
+    typeof lng === "number" &&
+    typeof lat === "number" &&
+    Number.isFinite(lng) &&
+    Number.isFinite(lat) &&
+    Math.abs(lng) <= 180 &&
+    Math.abs(lat) <= 90
+  );
+}
+
+// Closed: at least 4 positions, the last repeating the first
+function isLinearRing(ring: unknown) {
+  if (!Array.isArray(ring) || ring.length < 4 || !ring.every(isPosition))
+    return false;
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  return first[0] === last[0] && first[1] === last[1];
+}
+
+function isPolygonRings(rings: unknown) {
+  return Array.isArray(rings) && rings.length > 0 && rings.every(isLinearRing);
+}
+
+// Anything that passes can be measured by turf without throwing
+export function isHazardGeometry(value: unknown): value is Hazard {
+  const g = value as Hazard | null;
+  if (!g || typeof g !== "object" || !Array.isArray(g.coordinates))
+    return false;
+  if (g.type === "Polygon") return isPolygonRings(g.coordinates);
+  if (g.type === "MultiPolygon")
+    return g.coordinates.length > 0 && g.coordinates.every(isPolygonRings);
+  return false;
+}
+
+// Picks the known draft fields out of untrusted input, ignoring anything else
+export function parseHazardDraft(value: unknown): Partial<HazardDraft> {
+  const v = (value ?? {}) as Record<string, unknown>;
+  const out: Partial<HazardDraft> = {};
+  if (
+    typeof v.category === "string" &&
+    Object.hasOwn(HAZARD_CATEGORIES, v.category)
+  )
+    out.category = v.category as HazardCategory;
+  if (
+    typeof v.severity === "string" &&
+    Object.hasOwn(HAZARD_SEVERITIES, v.severity)
+  )
+    out.severity = v.severity as HazardSeverity;
+  if (typeof v.title === "string") out.title = v.title.slice(0, 200);
+  if (typeof v.notes === "string") out.notes = v.notes.slice(0, 4000);
+  if (typeof v.reporter === "string") out.reporter = v.reporter.slice(0, 100);
+  if (
+    typeof v.avoidance === "string" &&
+    Object.hasOwn(HAZARD_AVOIDANCE, v.avoidance)
+  )
+    out.avoidance = v.avoidance as HazardAvoidance;
+  // Accepts numeric strings too (KML ExtendedData is text)
+  const weight = Number(v.weight);
+  if (v.weight !== "" && v.weight != null && Number.isFinite(weight))
+    out.weight = Math.min(MAX_HAZARD_WEIGHT, Math.max(0, weight));
+  if (v.photo === null || v.photo === "") out.photo = null;
+  else if (typeof v.photo === "string" && /^[\w-]{1,64}$/.test(v.photo))
+    out.photo = v.photo;
+  for (const key of ["validFrom", "validUntil"] as const) {
+    if (v[key] === null || v[key] === "") out[key] = null;
+    else if (typeof v[key] === "string" && !isNaN(Date.parse(v[key])))
+      out[key] = new Date(v[key]).toISOString();
+  }
+  return out;
+}
@@ -0,0 +1,128 @@
+import { ApiRequestError, apiRequest } from "./apiClient";
+import type {
+  Hazard,
+  HazardCollection,
+  HazardDraft,
+  HazardEvent,
+  HazardFeature,
+  HazardReviewAction,
+} from "./hazards";
+
+/* ---------- Client for /api/hazards ---------- */
+// Identifies this tab, so it can skip the echo of its own changes
+const CLIENT_ID =
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2);
+
+let editorName = "";
+let moderatorKey = "";
+
+// Shown to everyone else as the author of this tab's changes
+export function setEditorName(name: string) {
+  editorName = name.trim();
+}
+
+export function setModeratorKey(key: string) {
+  moderatorKey = key.trim();
+}
+
+function editorHeaders(): Record<string, string> {
+  return {
+    "X-Client-Id": CLIENT_ID,
+    "X-Editor": encodeURIComponent(editorName),
+    ...(moderatorKey ? { "X-Moderator-Key": moderatorKey } : {}),
+  };
+}
+
+// Whether the current moderator key is accepted (never, when the server has
+// no keys configured)
+export function checkModerator() {
+  return apiRequest<{ moderator: boolean; configured: boolean }>(
+    "/api/hazards/moderator",
+    { headers: editorHeaders() }
+  );
+}
+
+export async function listHazards() {
+  const fc = await apiRequest<HazardCollection>("/api/hazards");
+  return fc.features;
+}
+
+export function createHazard(geometry: Hazard, properties: HazardDraft) {
+  return apiRequest<HazardFeature>("/api/hazards", {
+    method: "POST",
+    headers: editorHeaders(),
+    body: JSON.stringify({ geometry, properties }),
+  });
+}
+
+// baseVersion: the version this edit started from; a newer one on the
+// server fails with 409 and the stored hazard in `error.data.hazard`
+export function updateHazard(
+  id: string,
+  patch: { geometry?: Hazard; properties?: Partial<HazardDraft> },
+  baseVersion?: number
+) {
+  return apiRequest<HazardFeature>(`/api/hazards/${encodeURIComponent(id)}`, {
+    method: "PUT",
+    headers: editorHeaders(),
+    body: JSON.stringify({ ...patch, baseVersion }),
+  });
+}
+
+// Confirm/dispute need a name; approve/reject/resolve a moderator key
+export function reviewHazard(id: string, action: HazardReviewAction) {
+  return apiRequest<HazardFeature>(
+    `/api/hazards/${encodeURIComponent(id)}/review`,
+    {
+      method: "POST",
+      headers: editorHeaders(),
+      body: JSON.stringify({ action }),
+    }
+  );
+}
+
+// The stored hazard a 409 from updateHazard/deleteHazard/reviewHazard was
+// raised against
+export function conflictingHazard(e: unknown): HazardFeature | null {
+  return e instanceof ApiRequestError && e.code === "conflict"
+    ? (e.data?.hazard ?? null)
+    : null;
+}
+
+export function deleteHazard(id: string, baseVersion?: number) {
+  const query = baseVersion != null ? `?baseVersion=${baseVersion}` : "";
+  return apiRequest<void>(`/api/hazards/${encodeURIComponent(id)}${query}`, {
+    method: "DELETE",
+    headers: editorHeaders(),
+  });
+}
+
+export function clearHazards() {
+  return apiRequest<void>("/api/hazards", {
+    method: "DELETE",
+    headers: editorHeaders(),
+  });
+}
+
+// Live changes made by other tabs and users. EventSource reconnects by
+// itself; `onOpen` runs on every (re)connect so the caller can refetch
+// whatever it missed. Returns an unsubscribe function.
+export function subscribeHazardEvents(
+  onEvent: (event: HazardEvent) => void,
+  onOpen: () => void
+) {
+  const source = new EventSource("/api/hazards/events");
+  source.onmessage = (e) => {
+    let event: HazardEvent;
+    try {
+      event = JSON.parse(e.data);
+    } catch {
+      return;
+    }
+    if (event.origin !== CLIENT_ID) onEvent(event);
+  };
+  source.onopen = onOpen;
+  return () => source.close();
+}
@@ -0,0 +1,95 @@
+import * as turf from "@turf/turf";
+import { describe, expect, it } from "vitest";
+
+import { planRoute } from "./legPlanner";
+import type { LngLat, NormalizedRoute, RouteRequest } from "./routing";
+
+// Routes straight between the requested points, recording every request
+function straightRouter() {
+  const requests: RouteRequest[] = [];
+  const request = async (req: RouteRequest): Promise<NormalizedRoute> => {
+    requests.push(req);
+    const summary = { distance: 0, duration: 0 };
+    return {
+      provider: "test",
+      geometry: req.coordinates,
+      steps: [],
+      summary,
+      segments: req.coordinates.slice(1).map(() => summary),
+    };
+  };
+  return { requests, request };
+}
+
+function totalKm(coordinates: LngLat[]) {
+  return turf.length(turf.lineString(coordinates));
+}
+
+const hazard = (minX: number, maxX: number): GeoJSON.MultiPolygon => ({
+  type: "MultiPolygon",
+  coordinates: [turf.bboxPolygon([minX, -0.1, maxX, 0.1]).geometry.coordinates],
+});
+
+describe("planRoute", () => {
+  it("sends short trips in one request", async () => {
+    const { requests, request } = straightRouter();
+    await planRoute(
+      [
+        [0, 0],
+        [1, 0],
+      ],
+      hazard(0.4, 0.5),
+      {},
+      request
+    );
+    expect(requests).toHaveLength(1);
+  });
+
+  it("splits multi-stop trips that are long in total", async () => {
+    const { requests, request } = straightRouter();
+    // Four hops of ~67 km each: no single hop is over the limit
+    const stops: LngLat[] = [
+      [0, 0],
+      [0.6, 0],
+      [1.2, 0],
+      [1.8, 0],
+      [2.4, 0],
+    ];
+    await planRoute(stops, hazard(0.2, 0.3), {}, request);
+    const avoided = requests.filter((r) => r.avoidPolygons);
+    expect(avoided.length).toBeGreaterThan(0);
+    for (const r of avoided) expect(totalKm(r.coordinates)).toBeLessThan(150);
+  });
+
+  it("moves a cut off a hazard, backwards when forwards stays inside", async () => {
+    const { requests, request } = straightRouter();
+    // ~222 km trip cut in three; the hazard runs from before the second
+    // cut to past the end
+    await planRoute(
+      [
+        [0, 0],
+        [2, 0],
+      ],
+      hazard(1.1, 2.1),
+      {},
+      request
+    );
+    const cut = requests[requests.length - 1].coordinates[0];
+    expect(cut[0]).toBeLessThan(1.1);
+  });
+
+  it("refuses a cut that no nearby point clears", async () => {
+    const { request } = straightRouter();
+    await expect(
+      planRoute(
+        [
+          [0, 0],
+          [2, 0],
+        ],
+        hazard(0.3, 1.7),
+        {},
+        request
+      )
+    ).rejects.toThrow(/hazard/);
+  });
+});
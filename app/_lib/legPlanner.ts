@@ -0,0 +1,190 @@
+import * as turf from "@turf/turf";
+
+import type {
+  LngLat,
+  NormalizedRoute,
+  RouteOptions,
+  RouteRequest,
+  RouteStep,
+  RouteSummary,
+} from "./routing";
+
+/* ---------- Long trips in hazard-aware legs ---------- */
+// Beyond this straight-line distance through all waypoints ORS refuses
+// requests with avoid areas
+export const MAX_ROUTE_KM_WITH_AVOID = 150;
+// Legs are cut along the base route well inside that limit
+const LEG_TARGET_KM = 100;
+// Hazards further than this from a leg's part of the base route are left out
+const LEG_CORRIDOR_KM = 15;
+
+type Requester = (req: RouteRequest) => Promise<NormalizedRoute>;
+
+function straightKm(coordinates: LngLat[]) {
+  let km = 0;
+  for (let i = 1; i < coordinates.length; i++)
+    km += turf.distance(coordinates[i - 1], coordinates[i]);
+  return km;
+}
+
+function insideAny(p: LngLat, polys: GeoJSON.Feature<GeoJSON.Polygon>[]) {
+  return polys.some((poly) => turf.booleanPointInPolygon(p, poly));
+}
+
+// The point nearest `km` along the line that is outside every hazard,
+// looking both ways but staying over 1 km inside `from`..`to`
+function freePoint(
+  line: GeoJSON.Feature<GeoJSON.LineString>,
+  km: number,
+  from: number,
+  to: number,
+  polys: GeoJSON.Feature<GeoJSON.Polygon>[]
+): LngLat | null {
+  const reach = Math.max(to - 1 - km, km - from - 1);
+  for (let d = 0; d <= reach; d += 0.5) {
+    for (const at of d ? [km + d, km - d] : [km]) {
+      if (at >= to - 1 || at <= from + 1) continue;
+      const p = turf.along(line, at).geometry.coordinates as LngLat;
+      if (!insideAny(p, polys)) return p;
+    }
+  }
+  return null;
+}
+
+// Cut points along the base route (stops are always cut points), moved off
+// any hazard so no leg starts or ends inside one. Throws when a hazard covers
+// the whole stretch where a cut is needed
+function legBreaks(
+  base: LngLat[],
+  stops: LngLat[],
+  polys: GeoJSON.Feature<GeoJSON.Polygon>[]
+): { point: LngLat; stop: boolean }[] {
+  const line = turf.lineString(base);
+  const stopKm = stops.map(
+    (s) =>
+      turf.nearestPointOnLine(line, s, { units: "kilometers" }).properties
+        .location
+  );
+  const breaks = [{ point: stops[0], stop: true }];
+  for (let i = 1; i < stops.length; i++) {
+    const from = stopKm[i - 1];
+    const to = stopKm[i];
+    const n = Math.ceil((to - from) / LEG_TARGET_KM);
+    const step = (to - from) / n;
+    for (let k = 1; k < n; k++) {
+      // Each cut keeps to its own half-step either side, so cuts stay in order
+      const km = from + step * k;
+      const p = freePoint(line, km, km - step / 2, km + step / 2, polys);
+      if (!p) {
+        throw new Error(
+          "The route runs through a hazard too long to split the trip around. Add a stop outside it."
+        );
+      }
+      breaks.push({ point: p, stop: false });
+    }
+    breaks.push({ point: stops[i], stop: true });
+  }
+  return breaks;
+}
+
+function corridorAvoid(
+  base: LngLat[],
+  a: LngLat,
+  b: LngLat,
+  polys: GeoJSON.Feature<GeoJSON.Polygon>[]
+): GeoJSON.MultiPolygon | null {
+  const slice = turf.lineSlice(a, b, turf.lineString(base));
+  const corridor = turf.buffer(slice, LEG_CORRIDOR_KM, { units: "kilometers" });
+  if (!corridor) return null;
+  const near = polys.filter((p) => turf.booleanIntersects(p, corridor));
+  return near.length
+    ? {
+        type: "MultiPolygon",
+        coordinates: near.map((p) => p.geometry.coordinates),
+      }
+    : null;
+}
+
+// Joins legs into one route; intermediate zero-length "arrive" steps are
+// dropped and legs are summed back into stop-to-stop segments
+function joinLegs(
+  legs: NormalizedRoute[],
+  endsAtStop: boolean[]
+): NormalizedRoute {
+  const geometry: LngLat[] = [];
+  const steps: RouteStep[] = [];
+  const segments: RouteSummary[] = [{ distance: 0, duration: 0 }];
+  const warnings = new Set<string>();
+  legs.forEach((leg, i) => {
+    const seg = segments[segments.length - 1];
+    seg.distance += leg.summary.distance;
+    seg.duration += leg.summary.duration;
+    if (endsAtStop[i] && i < legs.length - 1)
+      segments.push({ distance: 0, duration: 0 });
+    const offset = Math.max(0, geometry.length - 1);
+    geometry.push(...(geometry.length ? leg.geometry.slice(1) : leg.geometry));
+    const legSteps = leg.steps.slice();
+    const last = legSteps[legSteps.length - 1];
+    if (i < legs.length - 1 && last && last.distance === 0) legSteps.pop();
+    for (const s of legSteps) {
+      steps.push({
+        ...s,
+        wayPoints: [s.wayPoints[0] + offset, s.wayPoints[1] + offset],
+        leg: i,
+      });
+    }
+    leg.warnings?.forEach((w) => warnings.add(w));
+  });
+  return {
+    provider: legs[0].provider,
+    geometry,
+    steps,
+    summary: {
+      distance: legs.reduce((d, l) => d + l.summary.distance, 0),
+      duration: legs.reduce((d, l) => d + l.summary.duration, 0),
+    },
+    segments,
+    legs: legs.map((l) => l.summary),
+    warnings: warnings.size ? [...warnings] : undefined,
+  };
+}
+
+export async function planRoute(
+  coordinates: LngLat[],
+  avoidPolygons: GeoJSON.MultiPolygon | null,
+  options: RouteOptions,
+  request: Requester
+): Promise<NormalizedRoute> {
+  if (!avoidPolygons || straightKm(coordinates) <= MAX_ROUTE_KM_WITH_AVOID) {
+    return request({ coordinates, avoidPolygons, options });
+  }
+
+  // Long trip: route once without hazards to learn the corridor, then plan
+  // each leg with only the hazards near its own stretch (alternatives can't
+  // be stitched across legs, so none are asked for)
+  const legOptions = { ...options, alternatives: 0 };
+  const base = await request({
+    coordinates,
+    avoidPolygons: null,
+    options: legOptions,
+  });
+  if (base.geometry.length < 2) return base;
+  const polys = avoidPolygons.coordinates.map((c) => turf.polygon(c));
+  const breaks = legBreaks(base.geometry, coordinates, polys);
+
+  const legs: NormalizedRoute[] = [];
+  for (let i = 1; i < breaks.length; i++) {
+    const [a, b] = [breaks[i - 1].point, breaks[i].point];
+    legs.push(
+      await request({
+        coordinates: [a, b],
+        avoidPolygons: corridorAvoid(base.geometry, a, b, polys),
+        options: legOptions,
+      })
+    );
+  }
+  return joinLegs(
+    legs,
+    breaks.slice(1).map((b) => b.stop)
+  );
+}
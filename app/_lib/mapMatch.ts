@@ -0,0 +1,192 @@
+import type { TraceFix } from "./gpsTrace";
+import { cumulativeMeters } from "./progress";
+import type { LngLat } from "./routing";
+
+/* ---------- Position filter ---------- */
+// Constant-velocity Kalman filter, run per axis in local metres. Position is
+// weighted by the fix's accuracy; speed + heading, when the device reports
+// them, are a second (velocity) measurement.
+const ACCEL_VARIANCE = 4; // (m/s²)², city driving
+const DEFAULT_ACCURACY_M = 15;
+const SPEED_ACCURACY_MS = 1;
+const M_PER_DEG = 111_320;
+
+type Axis = { x: number; v: number; pxx: number; pxv: number; pvv: number };
+
+function predict(a: Axis, dt: number) {
+  a.x += a.v * dt;
+  const q = ACCEL_VARIANCE;
+  a.pxx += 2 * dt * a.pxv + dt * dt * a.pvv + (q * dt ** 4) / 4;
+  a.pxv += dt * a.pvv + (q * dt ** 3) / 2;
+  a.pvv += q * dt * dt;
+}
+
+function measurePosition(a: Axis, z: number, r: number) {
+  const s = a.pxx + r;
+  const kx = a.pxx / s;
+  const kv = a.pxv / s;
+  const y = z - a.x;
+  a.x += kx * y;
+  a.v += kv * y;
+  a.pvv -= kv * a.pxv;
+  a.pxv -= kv * a.pxx;
+  a.pxx -= kx * a.pxx;
+}
+
+function measureVelocity(a: Axis, z: number, r: number) {
+  const s = a.pvv + r;
+  const kx = a.pxv / s;
+  const kv = a.pvv / s;
+  const y = z - a.v;
+  a.x += kx * y;
+  a.v += kv * y;
+  a.pxx -= kx * a.pxv;
+  a.pxv -= kv * a.pxv;
+  a.pvv -= kv * a.pvv;
+}
+
+export type FilteredFix = {
+  position: LngLat;
+  speed: number; // m/s
+  heading: number | null; // degrees from north; null when barely moving
+};
+
+export function createPositionFilter() {
+  let origin: LngLat | null = null;
+  let cosLat = 1;
+  let last = 0;
+  let ex: Axis;
+  let ny: Axis;
+
+  return {
+    reset() {
+      origin = null;
+    },
+
+    update(fix: TraceFix): FilteredFix {
+      const r = (fix.accuracy || DEFAULT_ACCURACY_M) ** 2;
+      if (!origin) {
+        origin = [fix.lng, fix.lat];
+        cosLat = Math.cos((fix.lat * Math.PI) / 180);
+        ex = { x: 0, v: 0, pxx: r, pxv: 0, pvv: 100 };
+        ny = { x: 0, v: 0, pxx: r, pxv: 0, pvv: 100 };
+      } else {
+        const dt = Math.max(0, (fix.time - last) / 1000);
+        predict(ex, dt);
+        predict(ny, dt);
+        measurePosition(ex, (fix.lng - origin[0]) * cosLat * M_PER_DEG, r);
+        measurePosition(ny, (fix.lat - origin[1]) * M_PER_DEG, r);
+      }
+      last = fix.time;
+
+      if (fix.speed != null) {
+        const rv = SPEED_ACCURACY_MS ** 2;
+        const rad = ((fix.heading ?? 0) * Math.PI) / 180;
+        // A stopped device often reports no heading; zero velocity is still news
+        const moving = fix.heading != null && fix.speed > 0.5;
+        measureVelocity(ex, moving ? fix.speed * Math.sin(rad) : 0, rv);
+        measureVelocity(ny, moving ? fix.speed * Math.cos(rad) : 0, rv);
+      }
+
+      const speed = Math.hypot(ex.v, ny.v);
+      return {
+        position: [
+          origin[0] + ex.x / (cosLat * M_PER_DEG),
+          origin[1] + ny.x / M_PER_DEG,
+        ],
+        speed,
+        heading:
+          speed > 1
+            ? ((Math.atan2(ex.v, ny.v) * 180) / Math.PI + 360) % 360
+            : null,
+      };
+    },
+  };
+}
+
+/* ---------- Route snapping ---------- */
+// Searched around the last matched spot first, so a parallel road, flyover or
+// the other side of a loop can't steal the match
+const MATCH_BEHIND_M = 30;
+const MATCH_AHEAD_MIN_M = 150;
+// Cost in metres of driving exactly against a segment's direction
+const HEADING_PENALTY_M = 40;
+
+export type RouteMatch = {
+  point: LngLat;
+  alongMeters: number;
+  offsetMeters: number; // from the filtered position to the matched point
+};
+
+export function createRouteMatcher(geometry: LngLat[]) {
+  const cumulative = cumulativeMeters(geometry);
+  let lastAlong: number | null = null;
+
+  // Best point on segments [from, to), in local metres around p
+  function search(f: FilteredFix, from: number, to: number) {
+    const [lng, lat] = f.position;
+    const kx = Math.cos((lat * Math.PI) / 180) * M_PER_DEG;
+    let best: (RouteMatch & { cost: number }) | null = null;
+    for (let i = from; i < to; i++) {
+      const [a, b] = [geometry[i], geometry[i + 1]];
+      const ax = (a[0] - lng) * kx;
+      const ay = (a[1] - lat) * M_PER_DEG;
+      const dx = (b[0] - lng) * kx - ax;
+      const dy = (b[1] - lat) * M_PER_DEG - ay;
+      const len2 = dx * dx + dy * dy;
+      const t = len2
+        ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / len2))
+        : 0;
+      const offset = Math.hypot(ax + t * dx, ay + t * dy);
+      let cost = offset;
+      if (f.heading != null && len2) {
+        const segHeading = (Math.atan2(dx, dy) * 180) / Math.PI;
+        const diff = ((f.heading - segHeading) * Math.PI) / 180;
+        cost += (HEADING_PENALTY_M * (1 - Math.cos(diff))) / 2;
+      }
+      if (best && cost >= best.cost) continue;
+      best = {
+        point: [a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])],
+        alongMeters: cumulative[i] + t * (cumulative[i + 1] - cumulative[i]),
+        offsetMeters: offset,
+        cost,
+      };
+    }
+    return best;
+  }
+
+  function segmentAt(meters: number) {
+    const i = cumulative.findIndex((c) => c > meters);
+    return i < 0 ? cumulative.length - 2 : Math.max(0, i - 1);
+  }
+
+  return {
+    reset() {
+      lastAlong = null;
+    },
+
+    // `withinMeters`: how far off the route a match still counts as on it
+    match(f: FilteredFix, withinMeters: number): RouteMatch | null {
+      if (geometry.length < 2) return null;
+      let best: ReturnType<typeof search> = null;
+      if (lastAlong != null) {
+        const ahead = Math.max(MATCH_AHEAD_MIN_M, f.speed * 10);
+        best = search(
+          f,
+          segmentAt(lastAlong - MATCH_BEHIND_M),
+          segmentAt(lastAlong + ahead) + 1
+        );
+        if (best && best.offsetMeters > withinMeters) best = null;
+      }
+      // First fix, or lost the thread (off-route, seek, tunnel): search it all
+      best ??= search(f, 0, geometry.length - 1);
+      if (!best) return null;
+      if (best.offsetMeters <= withinMeters) lastAlong = best.alongMeters;
+      return {
+        point: best.point,
+        alongMeters: best.alongMeters,
+        offsetMeters: best.offsetMeters,
+      };
+    },
+  };
+}
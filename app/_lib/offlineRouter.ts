@@ -0,0 +1,355 @@
+import * as turf from "@turf/turf";
+
+import type {
+  LngLat,
+  NormalizedRoute,
+  RouteStep,
+  RouteSummary,
+} from "./routing";
+
+/* ---------- Local road graph (from OSM-derived GeoJSON LineStrings) ---------- */
+type Edge = {
+  to: number;
+  meters: number;
+  seconds: number;
+  name: string;
+};
+
+export type RoadGraph = {
+  nodes: LngLat[];
+  edges: Edge[][]; // adjacency by node index
+  maxSpeedMs: number;
+};
+
+// km/h by OSM highway class when maxspeed is missing
+const DEFAULT_SPEEDS_KMH: Record<string, number> = {
+  motorway: 90,
+  trunk: 70,
+  primary: 50,
+  secondary: 40,
+  tertiary: 35,
+  unclassified: 30,
+  residential: 25,
+  service: 15,
+  living_street: 10,
+};
+const FALLBACK_SPEED_KMH = 25;
+const HAZARD_PENALTY_FACTOR = 20;
+
+function speedKmh(props: any) {
+  const max = parseFloat(props?.maxspeed);
+  if (Number.isFinite(max) && max > 0) return max;
+  const cls = String(props?.highway ?? "").replace(/_link$/, "");
+  return DEFAULT_SPEEDS_KMH[cls] ?? FALLBACK_SPEED_KMH;
+}
+
+function meters(a: LngLat, b: LngLat) {
+  return turf.distance(a, b, { units: "meters" });
+}
+
+export function buildRoadGraph(fc: GeoJSON.FeatureCollection): RoadGraph {
+  const index = new Map<string, number>();
+  const nodes: LngLat[] = [];
+  const edges: Edge[][] = [];
+  let maxSpeedKmh = FALLBACK_SPEED_KMH;
+
+  const nodeId = (c: number[]) => {
+    const key = `${c[0].toFixed(6)},${c[1].toFixed(6)}`;
+    let id = index.get(key);
+    if (id == null) {
+      id = nodes.length;
+      index.set(key, id);
+      nodes.push([c[0], c[1]]);
+      edges.push([]);
+    }
+    return id;
+  };
+
+  for (const f of fc.features) {
+    const g = f.geometry;
+    const lines =
+      g?.type === "LineString"
+        ? [g.coordinates]
+        : g?.type === "MultiLineString"
+          ? g.coordinates
+          : [];
+    const props = f.properties ?? {};
+    const kmh = speedKmh(props);
+    maxSpeedKmh = Math.max(maxSpeedKmh, kmh);
+    const oneway =
+      props.junction === "roundabout"
+        ? "yes"
+        : String(props.oneway ?? "").toLowerCase();
+    const forward = oneway !== "-1";
+    const backward = oneway === "-1" || !["yes", "true", "1"].includes(oneway);
+    const name = String(props.name ?? props.ref ?? "");
+
+    for (const line of lines) {
+      for (let i = 1; i < line.length; i++) {
+        const a = nodeId(line[i - 1]);
+        const b = nodeId(line[i]);
+        if (a === b) continue;
+        const m = meters(nodes[a], nodes[b]);
+        const s = m / (kmh / 3.6);
+        if (forward) edges[a].push({ to: b, meters: m, seconds: s, name });
+        if (backward) edges[b].push({ to: a, meters: m, seconds: s, name });
+      }
+    }
+  }
+  return { nodes, edges, maxSpeedMs: maxSpeedKmh / 3.6 };
+}
+
+/* ---------- Hazard edges ---------- */
+// Returns "from:to" keys of edges that touch any avoid polygon
+function hazardEdges(graph: RoadGraph, avoid: GeoJSON.MultiPolygon) {
+  const polys = avoid.coordinates.map((p) => {
+    const poly = turf.polygon(p);
+    return { poly, bbox: turf.bbox(poly) };
+  });
+  const hit = new Set<string>();
+  graph.edges.forEach((list, from) => {
+    const a = graph.nodes[from];
+    for (const e of list) {
+      const b = graph.nodes[e.to];
+      const [minX, maxX] = a[0] < b[0] ? [a[0], b[0]] : [b[0], a[0]];
+      const [minY, maxY] = a[1] < b[1] ? [a[1], b[1]] : [b[1], a[1]];
+      for (const { poly, bbox } of polys) {
+        if (
+          maxX < bbox[0] ||
+          minX > bbox[2] ||
+          maxY < bbox[1] ||
+          minY > bbox[3]
+        )
+          continue;
+        if (turf.booleanIntersects(turf.lineString([a, b]), poly)) {
+          hit.add(`${from}:${e.to}`);
+          break;
+        }
+      }
+    }
+  });
+  return hit;
+}
+
+/* ---------- Search ---------- */
+// Minimal binary heap keyed by priority
+class MinHeap {
+  private items: { id: number; p: number }[] = [];
+  get size() {
+    return this.items.length;
+  }
+  push(id: number, p: number) {
+    const a = this.items;
+    a.push({ id, p });
+    let i = a.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (a[parent].p <= a[i].p) break;
+      [a[parent], a[i]] = [a[i], a[parent]];
+      i = parent;
+    }
+  }
+  pop() {
+    const a = this.items;
+    const top = a[0];
+    const last = a.pop()!;
+    if (a.length) {
+      a[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let m = i;
+        if (l < a.length && a[l].p < a[m].p) m = l;
+        if (r < a.length && a[r].p < a[m].p) m = r;
+        if (m === i) break;
+        [a[m], a[i]] = [a[i], a[m]];
+        i = m;
+      }
+    }
+    return top.id;
+  }
+}
+
+function nearestNode(graph: RoadGraph, p: LngLat) {
+  let best = -1;
+  let bestD = Infinity;
+  const k = Math.cos((p[1] * Math.PI) / 180);
+  graph.nodes.forEach((n, i) => {
+    if (!graph.edges[i].length) return;
+    const dx = (n[0] - p[0]) * k;
+    const dy = n[1] - p[1];
+    const d = dx * dx + dy * dy;
+    if (d < bestD) {
+      bestD = d;
+      best = i;
+    }
+  });
+  return best;
+}
+
+// A* on travel time; hazard edges are skipped or cost HAZARD_PENALTY_FACTOR×
+function aStar(
+  graph: RoadGraph,
+  from: number,
+  to: number,
+  blocked: Set<string>,
+  penalise: boolean
+): { path: number[]; edges: Edge[] } | null {
+  const g = new Map<number, number>([[from, 0]]);
+  const prev = new Map<number, { node: number; edge: Edge }>();
+  const open = new MinHeap();
+  const h = (i: number) =>
+    meters(graph.nodes[i], graph.nodes[to]) / graph.maxSpeedMs;
+  open.push(from, h(from));
+  const closed = new Set<number>();
+
+  while (open.size) {
+    const cur = open.pop();
+    if (cur === to) break;
+    if (closed.has(cur)) continue;
+    closed.add(cur);
+    for (const e of graph.edges[cur]) {
+      let cost = e.seconds;
+      if (blocked.has(`${cur}:${e.to}`)) {
+        if (!penalise) continue;
+        cost *= HAZARD_PENALTY_FACTOR;
+      }
+      const next = g.get(cur)! + cost;
+      if (next < (g.get(e.to) ?? Infinity)) {
+        g.set(e.to, next);
+        prev.set(e.to, { node: cur, edge: e });
+        open.push(e.to, next + h(e.to));
+      }
+    }
+  }
+  if (!g.has(to)) return null;
+  const path = [to];
+  const edges: Edge[] = [];
+  for (let n = to; n !== from;) {
+    const p = prev.get(n)!;
+    edges.unshift(p.edge);
+    path.unshift(p.node);
+    n = p.node;
+  }
+  return { path, edges };
+}
+
+/* ---------- Instructions ---------- */
+function turnText(delta: number) {
+  const a = ((delta + 540) % 360) - 180; // -180..180, positive = right
+  if (Math.abs(a) < 20) return "Continue";
+  if (a >= 20 && a < 60) return "Keep right";
+  if (a <= -20 && a > -60) return "Keep left";
+  if (a >= 60 && a < 150) return "Turn right";
+  if (a <= -60 && a > -150) return "Turn left";
+  return "Make a U-turn";
+}
+
+// One step per run of edges on the same street
+function buildSteps(
+  graph: RoadGraph,
+  path: number[],
+  edges: Edge[],
+  offset: number
+) {
+  const steps: RouteStep[] = [];
+  let i = 0;
+  while (i < edges.length) {
+    let j = i;
+    let m = 0;
+    let s = 0;
+    while (j < edges.length && edges[j].name === edges[i].name) {
+      m += edges[j].meters;
+      s += edges[j].seconds;
+      j++;
+    }
+    const onto = edges[i].name ? ` onto ${edges[i].name}` : "";
+    let verb = "Head";
+    if (i > 0) {
+      const before = turf.bearing(
+        graph.nodes[path[i - 1]],
+        graph.nodes[path[i]]
+      );
+      const after = turf.bearing(
+        graph.nodes[path[i]],
+        graph.nodes[path[i + 1]]
+      );
+      verb = turnText(after - before);
+    }
+    steps.push({
+      instruction: `${verb}${onto}`,
+      distance: m,
+      duration: s,
+      wayPoints: [offset + i, offset + j],
+    });
+    i = j;
+  }
+  return steps;
+}
+
+/* ---------- Public entry ---------- */
+export async function loadRoadGraph(url: string): Promise<RoadGraph | null> {
+  const res = await fetch(url);
+  if (!res.ok) return null;
+  return buildRoadGraph(await res.json());
+}
+
+export function routeOffline(
+  graph: RoadGraph,
+  coordinates: LngLat[],
+  avoidPolygons: GeoJSON.MultiPolygon | null
+): NormalizedRoute | null {
+  const stops = coordinates.map((c) => nearestNode(graph, c));
+  if (stops.some((s) => s < 0)) return null;
+  const blocked = avoidPolygons
+    ? hazardEdges(graph, avoidPolygons)
+    : new Set<string>();
+
+  const geometry: LngLat[] = [];
+  const steps: RouteStep[] = [];
+  const segments: RouteSummary[] = [];
+  const warnings = new Set<string>();
+  let distance = 0;
+  let duration = 0;
+
+  for (let k = 1; k < stops.length; k++) {
+    let leg = aStar(graph, stops[k - 1], stops[k], blocked, false);
+    if (!leg && blocked.size) {
+      leg = aStar(graph, stops[k - 1], stops[k], blocked, true);
+      if (leg)
+        warnings.add(
+          "No hazard-free road found offline; the route passes through a hazard."
+        );
+    }
+    if (!leg) return null;
+    const offset = Math.max(0, geometry.length - 1);
+    const pts = leg.path.map((n) => graph.nodes[n]);
+    geometry.push(...(geometry.length ? pts.slice(1) : pts));
+    steps.push(...buildSteps(graph, leg.path, leg.edges, offset));
+    const seg = { distance: 0, duration: 0 };
+    for (const e of leg.edges) {
+      seg.distance += e.meters;
+      seg.duration += e.seconds;
+    }
+    segments.push(seg);
+    distance += seg.distance;
+    duration += seg.duration;
+  }
+  const last = Math.max(0, geometry.length - 1);
+  steps.push({
+    instruction: "Arrive at destination",
+    distance: 0,
+    duration: 0,
+    wayPoints: [last, last],
+  });
+
+  return {
+    provider: "offline",
+    geometry,
+    steps,
+    summary: { distance, duration },
+    segments,
+    warnings: warnings.size ? [...warnings] : undefined,
+  };
+}
@@ -0,0 +1,41 @@
+import { apiRequest } from "./apiClient";
+
+/* ---------- Client for /api/photos ---------- */
+// Phone photos are several MB; this is plenty to judge a report by
+const MAX_PHOTO_SIDE = 1600;
+const PHOTO_QUALITY = 0.8;
+
+export function photoUrl(id: string) {
+  return `/api/photos/${encodeURIComponent(id)}`;
+}
+
+async function downscale(file: File): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(
+    1,
+    MAX_PHOTO_SIDE / Math.max(bitmap.width, bitmap.height)
+  );
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d")!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Could not encode photo.")),
+      "image/jpeg",
+      PHOTO_QUALITY
+    )
+  );
+}
+
+// Resized and re-encoded as JPEG (which also drops EXIF location) first
+export async function uploadPhoto(file: File) {
+  const { id } = await apiRequest<{ id: string }>("/api/photos", {
+    method: "POST",
+    headers: { "Content-Type": "image/jpeg" },
+    body: await downscale(file),
+  });
+  return id;
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+
+import { cumulativeMeters, routeProgress } from "./progress";
+import type { LngLat } from "./routing";
+
+// Out along y = 0 and back along y = 0.0001 (~11 m apart), one step each way
+const route: LngLat[] = [
+  [0, 0],
+  [0.01, 0],
+  [0.01, 0.0001],
+  [0, 0.0001],
+];
+const steps = [
+  { duration: 60, wayPoints: [0, 1] as [number, number] },
+  { duration: 5, wayPoints: [1, 2] as [number, number] },
+  { duration: 60, wayPoints: [2, 3] as [number, number] },
+];
+const cumulative = cumulativeMeters(route);
+
+describe("routeProgress", () => {
+  it("snaps to the nearest point without a matched position", () => {
+    const p = routeProgress(route, cumulative, steps, [0.005, 0]);
+    expect(p?.step).toBe(0);
+    expect(p?.alongMeters).toBeCloseTo(cumulative[1] / 2, 0);
+  });
+
+  it("keeps to the matched position on the way back", () => {
+    const back = cumulative[2] + (cumulative[3] - cumulative[2]) / 2;
+    // Nearer the outbound carriageway, but matched on the return one
+    const p = routeProgress(route, cumulative, steps, [0.005, 0], back);
+    expect(p?.step).toBe(2);
+    expect(p?.alongMeters).toBe(back);
+    expect(p?.remainingSeconds).toBeCloseTo(30, 5);
+  });
+});
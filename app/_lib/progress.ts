@@ -0,0 +1,69 @@
+import * as turf from "@turf/turf";
+
+import type { LngLat } from "./routing";
+
+/* ---------- Progress along a route ---------- */
+export type ProgressStep = {
+  duration: number; // seconds
+  wayPoints: [number, number]; // index range into route geometry
+};
+
+export type RouteProgress = {
+  step: number; // index of the step being driven
+  alongMeters: number;
+  toNextMeters: number; // to the end of the current step (next manoeuvre)
+  remainingMeters: number;
+  remainingSeconds: number;
+};
+
+// Metres from the start of the route to each vertex
+export function cumulativeMeters(geometry: LngLat[]) {
+  const out = [0];
+  for (let i = 1; i < geometry.length; i++)
+    out.push(
+      out[i - 1] +
+        turf.distance(geometry[i - 1], geometry[i], { units: "meters" })
+    );
+  return out;
+}
+
+// matchedAlong: where the ordered route matcher put `pos`, when it has. The
+// nearest point alone can jump across loops, flyovers and carriageways
+export function routeProgress(
+  geometry: LngLat[],
+  cumulative: number[],
+  steps: ProgressStep[],
+  pos: LngLat,
+  matchedAlong?: number | null
+): RouteProgress | null {
+  if (geometry.length < 2 || !steps.length) return null;
+  const alongMeters =
+    matchedAlong ??
+    turf.nearestPointOnLine(turf.lineString(geometry), pos, {
+      units: "meters",
+    }).properties.location;
+  const total = cumulative[cumulative.length - 1];
+
+  let step = steps.findIndex(
+    (s) =>
+      alongMeters >= cumulative[s.wayPoints[0]] &&
+      alongMeters < cumulative[s.wayPoints[1]]
+  );
+  if (step < 0) step = steps.length - 1;
+
+  // Time left: the unfinished share of this step plus every later step
+  const [a, b] = steps[step].wayPoints;
+  const length = cumulative[b] - cumulative[a];
+  const left = length > 0 ? (cumulative[b] - alongMeters) / length : 0;
+  let remainingSeconds = steps[step].duration * Math.max(0, left);
+  for (let i = step + 1; i < steps.length; i++)
+    remainingSeconds += steps[i].duration;
+
+  return {
+    step,
+    alongMeters,
+    toNextMeters: Math.max(0, cumulative[b] - alongMeters),
+    remainingMeters: Math.max(0, total - alongMeters),
+    remainingSeconds,
+  };
+}
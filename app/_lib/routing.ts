@@ -0,0 +1,85 @@
+/* ---------- Provider-neutral routing types (shared client/server) ---------- */
+export type LngLat = [number, number];
+
+export type RouteStep = {
+  instruction: string;
+  distance: number; // metres
+  duration: number; // seconds
+  wayPoints: [number, number]; // index range into route geometry
+  leg?: number; // set when a long trip was planned in several legs
+};
+
+export type RouteSummary = {
+  distance: number; // metres
+  duration: number; // seconds
+};
+
+export type NormalizedRoute = {
+  provider: string;
+  geometry: LngLat[];
+  steps: RouteStep[];
+  summary: RouteSummary;
+  segments: RouteSummary[]; // one per consecutive pair of request coordinates
+  legs?: RouteSummary[];
+  warnings?: string[];
+  alternatives?: NormalizedRoute[]; // other candidates, best first
+};
+
+/* ---------- Travel profiles ---------- */
+export type TravelProfile = "car" | "hgv" | "bike" | "foot";
+
+export const TRAVEL_PROFILES: Record<
+  TravelProfile,
+  { label: string; speedKmh: number; gmapsMode: string }
+> = {
+  car: { label: "Car", speedKmh: 40, gmapsMode: "driving" },
+  hgv: { label: "Truck (HGV)", speedKmh: 35, gmapsMode: "driving" },
+  bike: { label: "Cycling", speedKmh: 15, gmapsMode: "bicycling" },
+  foot: { label: "Walking", speedKmh: 5, gmapsMode: "walking" },
+};
+
+// Restrictions for the HGV profile; unset values are not restricted
+export type HgvParams = {
+  heightM?: number;
+  weightT?: number;
+  axleLoadT?: number;
+  hazmat?: boolean;
+};
+
+export type AvoidFeature = "tollways" | "ferries" | "highways";
+
+export const AVOID_FEATURES: Record<AvoidFeature, { label: string }> = {
+  tollways: { label: "Tolls" },
+  ferries: { label: "Ferries" },
+  highways: { label: "Highways" },
+};
+
+// Languages offered for turn instructions (and spoken guidance)
+export type InstructionLanguage = "en" | "id" | "de" | "fr" | "es";
+
+export const INSTRUCTION_LANGUAGES: Record<
+  InstructionLanguage,
+  { label: string; tag: string } // tag: BCP 47
+> = {
+  en: { label: "English", tag: "en-US" },
+  id: { label: "Bahasa Indonesia", tag: "id-ID" },
+  de: { label: "Deutsch", tag: "de-DE" },
+  fr: { label: "Français", tag: "fr-FR" },
+  es: { label: "Español", tag: "es-ES" },
+};
+
+export type RouteOptions = {
+  profile?: TravelProfile; // default "car"
+  language?: InstructionLanguage; // default "en"
+  hgv?: HgvParams;
+  avoidFeatures?: AvoidFeature[];
+  alternatives?: number; // extra routes wanted; providers may return fewer
+};
+
+export const MAX_ALTERNATIVES = 2;
+
+export type RouteRequest = {
+  coordinates: LngLat[];
+  avoidPolygons?: GeoJSON.MultiPolygon | null;
+  options?: RouteOptions;
+};
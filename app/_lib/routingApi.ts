@@ -0,0 +1,23 @@
+import { apiRequest } from "./apiClient";
+import type { NormalizedRoute, RouteRequest } from "./routing";
+
+/* ---------- Client for /api/directions and /api/geocode ---------- */
+export type GeocodeFeature = {
+  geometry: { coordinates: [number, number] };
+  properties?: { label?: string };
+};
+
+export function requestDirections(body: RouteRequest) {
+  return apiRequest<NormalizedRoute>("/api/directions", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+export async function geocodeAutocomplete(text: string, size = 6) {
+  const qs = new URLSearchParams({ text, size: String(size) });
+  const data = await apiRequest<{ features?: GeocodeFeature[] }>(
+    `/api/geocode?${qs}`
+  );
+  return data.features ?? [];
+}
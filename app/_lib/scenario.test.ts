@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  decodeScenario,
+  encodeScenario,
+  sameGeometry,
+  type Scenario,
+} from "./scenario";
+
+const geometry = {
+  type: "Polygon" as const,
+  coordinates: [
+    [
+      [13.4, 52.5],
+      [13.41, 52.5],
+      [13.41, 52.51],
+      [13.4, 52.5],
+    ],
+  ],
+};
+
+describe("scenario links", () => {
+  it("round-trips through the URL fragment", async () => {
+    const scenario: Scenario = {
+      start: [52.5, 13.4],
+      end: [52.52, 13.45],
+      hazards: [{ id: "h1", geometry, properties: { title: "Flood" } }],
+      hazardBufferMeters: 200,
+      mode: "navigate",
+    };
+    const text = await encodeScenario(scenario);
+    expect(text).toMatch(/^[\w-]+$/);
+    expect(await decodeScenario(text)).toEqual(scenario);
+  });
+
+  it("drops hazards with invalid geometry", async () => {
+    const text = await encodeScenario({
+      start: null,
+      end: null,
+      hazards: [
+        { id: "ok", geometry, properties: {} },
+        {
+          id: "point",
+          geometry: { type: "Point", coordinates: [13.4, 52.5] } as any,
+          properties: {},
+        },
+        {
+          id: "open",
+          geometry: {
+            ...geometry,
+            coordinates: [geometry.coordinates[0].slice(0, 3)],
+          },
+          properties: {},
+        },
+      ],
+      hazardBufferMeters: 150,
+      mode: "hazard",
+    });
+    const decoded = await decodeScenario(text);
+    expect(decoded.hazards.map((h) => h.id)).toEqual(["ok"]);
+  });
+
+  it("throws on text that isn't a scenario", async () => {
+    await expect(decodeScenario("not-a-scenario")).rejects.toThrow();
+  });
+
+  it("treats shapes equal to ~10 cm as the same", () => {
+    const nudged = {
+      ...geometry,
+      coordinates: [
+        geometry.coordinates[0].map(([x, y]) => [x + 1e-8, y] as number[]),
+      ],
+    };
+    expect(sameGeometry(geometry, nudged)).toBe(true);
+    expect(
+      sameGeometry(geometry, {
+        type: "MultiPolygon",
+        coordinates: [geometry.coordinates],
+      })
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  isHazardGeometry,
+  parseHazardDraft,
+  type Hazard,
+  type HazardDraft,
+  type HazardFeature,
+} from "./hazards";
+
+/* ---------- Shareable scenarios (route endpoints + hazards + settings) ---------- */
+export type Scenario = {
+  start: [number, number] | null; // [lat, lng]
+  end: [number, number] | null;
+  hazards: { id: string; geometry: Hazard; properties: Partial<HazardDraft> }[];
+  hazardBufferMeters: number;
+  mode: "hazard" | "navigate";
+};
+
+// Longer fragments get mangled by chat apps and mail clients; past this the
+// scenario goes to the server and the link carries only its id
+export const MAX_SCENARIO_FRAGMENT = 2000;
+export const SCENARIO_HASH_KEY = "scenario";
+export const SHARE_HASH_KEY = "share";
+
+// ~10 cm is plenty and keeps the JSON short
+function round(value: any): any {
+  if (typeof value === "number") return Math.round(value * 1e6) / 1e6;
+  if (Array.isArray(value)) return value.map(round);
+  return value;
+}
+
+export function scenarioHazards(hazards: HazardFeature[]): Scenario["hazards"] {
+  // Only what a client could set; review state stays with the server
+  return hazards.map((h) => ({
+    id: h.id,
+    geometry: {
+      type: h.geometry.type,
+      coordinates: round(h.geometry.coordinates),
+    } as Hazard,
+    properties: parseHazardDraft(h.properties),
+  }));
+}
+
+async function pipe(bytes: Uint8Array, stream: GenericTransformStream) {
+  const out = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(out).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000)
+    bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string) {
+  const bin = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+// JSON -> deflate -> base64url
+export async function encodeScenario(s: Scenario) {
+  const json = new TextEncoder().encode(
+    JSON.stringify({ ...s, start: round(s.start), end: round(s.end) })
+  );
+  return toBase64Url(await pipe(json, new CompressionStream("deflate-raw")));
+}
+
+function latLng(v: unknown): [number, number] | null {
+  return Array.isArray(v) &&
+    v.length === 2 &&
+    v.every((n) => typeof n === "number" && Number.isFinite(n))
+    ? [v[0], v[1]]
+    : null;
+}
+
+// Throws on anything that isn't a scenario we wrote
+export async function decodeScenario(text: string): Promise<Scenario> {
+  const bytes = await pipe(
+    fromBase64Url(text),
+    new DecompressionStream("deflate-raw")
+  );
+  const data = JSON.parse(new TextDecoder().decode(bytes));
+  if (!data || !Array.isArray(data.hazards)) {
+    throw new Error("Link does not contain a scenario.");
+  }
+  return {
+    start: latLng(data.start),
+    end: latLng(data.end),
+    hazards: data.hazards
+      .filter((h: any) => isHazardGeometry(h?.geometry))
+      .map((h: any) => ({
+        id: String(h.id ?? ""),
+        geometry: h.geometry,
+        properties: parseHazardDraft(h.properties),
+      })),
+    hazardBufferMeters:
+      typeof data.hazardBufferMeters === "number" && data.hazardBufferMeters > 0
+        ? data.hazardBufferMeters
+        : 150,
+    mode: data.mode === "navigate" ? "navigate" : "hazard",
+  };
+}
+
+// Same shape, same place: used so reopening a link doesn't duplicate hazards
+export function sameGeometry(a: Hazard, b: Hazard) {
+  return (
+    a.type === b.type &&
+    JSON.stringify(round(a.coordinates)) ===
+      JSON.stringify(round(b.coordinates))
+  );
+}
@@ -0,0 +1,27 @@
+/* ---------- In-memory TTL cache with LRU eviction ---------- */
+export function createTtlCache<T>(maxEntries: number, ttlMs: number) {
+  const entries = new Map<string, { value: Promise<T>; expires: number }>();
+
+  return {
+    // Identical concurrent requests share one in-flight promise; failures
+    // are evicted so the next caller retries
+    get(key: string, load: () => Promise<T>): Promise<T> {
+      const now = Date.now();
+      const hit = entries.get(key);
+      if (hit && hit.expires > now) {
+        entries.delete(key);
+        entries.set(key, hit);
+        return hit.value;
+      }
+      const value = load();
+      entries.set(key, { value, expires: now + ttlMs });
+      value.catch(() => {
+        if (entries.get(key)?.value === value) entries.delete(key);
+      });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+      return value;
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import type { HazardEvent } from "../hazards";
+
+/* ---------- Live hazard changes, fanned out to every SSE connection ---------- */
+type Listener = (event: HazardEvent) => void;
+
+// Route handlers may be bundled separately; keep one listener set per process
+const g = globalThis as typeof globalThis & {
+  __hazardListeners?: Set<Listener>;
+};
+const listeners = (g.__hazardListeners ??= new Set());
+
+export function publishHazardEvent(event: HazardEvent) {
+  for (const listener of listeners) listener(event);
+}
+
+export function subscribeHazardEvents(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Who is making a change: display name and the browser tab it came from
+export function editorOf(request: Request) {
+  let by = "";
+  try {
+    by = decodeURIComponent(request.headers.get("x-editor") ?? "").slice(
+      0,
+      100
+    );
+  } catch {}
+  return { by, origin: request.headers.get("x-client-id") ?? "" };
+}
@@ -0,0 +1,117 @@
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { Hazard } from "../hazards";
+
+// The store reads its path when loaded, so it's imported after setting it
+let store: typeof import("./hazardStore");
+beforeAll(async () => {
+  const dir = mkdtempSync(path.join(tmpdir(), "hazard-store-"));
+  process.env.HAZARD_STORE_PATH = path.join(dir, "hazards.json");
+  store = await import("./hazardStore");
+});
+beforeEach(() => store.hazardStore.clear());
+
+function square(side: number): Hazard {
+  return {
+    type: "Polygon",
+    coordinates: [
+      [
+        [0, 0],
+        [side, 0],
+        [side, side],
+        [0, side],
+        [0, 0],
+      ],
+    ],
+  };
+}
+
+describe("hazardStore.update", () => {
+  it("rejects a change made against an older version", async () => {
+    const { hazardStore, HazardConflictError } = store;
+    const h = await hazardStore.create(square(1), { title: "a" });
+    await hazardStore.update(
+      h.id,
+      { properties: { title: "b" } },
+      { baseVersion: 1 }
+    );
+    const stale = hazardStore.update(
+      h.id,
+      { properties: { title: "c" } },
+      { baseVersion: 1 }
+    );
+    await expect(stale).rejects.toBeInstanceOf(HazardConflictError);
+    await expect(stale).rejects.toMatchObject({
+      current: { properties: { title: "b", version: 2 } },
+    });
+  });
+
+  it("holds a non-moderator's edit to a reviewed report as a proposal", async () => {
+    const { hazardStore } = store;
+    const h = await hazardStore.create(
+      square(1),
+      { title: "a" },
+      {
+        by: "mod",
+        status: "approved",
+      }
+    );
+    const edited = await hazardStore.update(
+      h.id,
+      { geometry: square(2), properties: { title: "b" } },
+      { by: "bob", moderator: false }
+    );
+    expect(edited?.geometry).toEqual(square(1));
+    expect(edited?.properties).toMatchObject({
+      status: "approved",
+      title: "a",
+      proposal: { geometry: square(2), properties: { title: "b" }, by: "bob" },
+    });
+
+    const accepted = await hazardStore.review(h.id, "acceptEdit", "mod");
+    expect(accepted?.geometry).toEqual(square(2));
+    expect(accepted?.properties).toMatchObject({ title: "b", proposal: null });
+  });
+
+  it("applies a non-moderator's edit to a pending report and clears its votes", async () => {
+    const { hazardStore } = store;
+    const h = await hazardStore.create(square(1), { title: "a" });
+    await hazardStore.review(h.id, "confirm", "ann");
+    const edited = await hazardStore.update(
+      h.id,
+      { properties: { title: "b" } },
+      { by: "bob", moderator: false }
+    );
+    expect(edited?.properties).toMatchObject({
+      status: "pending",
+      title: "b",
+      confirmedBy: [],
+      proposal: null,
+    });
+  });
+});
+
+describe("hazardStore.review", () => {
+  it("refuses an action the status no longer allows", async () => {
+    const { hazardStore, HazardConflictError } = store;
+    const h = await hazardStore.create(square(1), {});
+    await expect(
+      hazardStore.review(h.id, "resolve", "mod")
+    ).rejects.toBeInstanceOf(HazardConflictError);
+  });
+});
+
+describe("hazardStore across route bundles", () => {
+  it("shares one copy of the hazards between module instances", async () => {
+    const h = await store.hazardStore.create(square(1), { title: "a" });
+    vi.resetModules();
+    const other = await import("./hazardStore");
+    await other.hazardStore.update(h.id, { properties: { title: "b" } });
+    expect(await store.hazardStore.list()).toMatchObject([
+      { properties: { title: "b" } },
+    ]);
+  });
+});
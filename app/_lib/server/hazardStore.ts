@@ -0,0 +1,242 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+import {
+  DEFAULT_HAZARD_DRAFT,
+  HAZARD_REVIEW_ACTIONS,
+  isHazardGeometry,
+  reviewHazard,
+  type Hazard,
+  type HazardDraft,
+  type HazardFeature,
+  type HazardReview,
+  type HazardReviewAction,
+  type HazardStatus,
+} from "../hazards";
+
+/* ---------- JSON file store (one file, serialised writes) ---------- */
+const STORE_PATH =
+  process.env.HAZARD_STORE_PATH ||
+  path.join(process.cwd(), "data", "hazards.json");
+
+// Thrown when a change doesn't fit the stored hazard: made against an older
+// version, or a review action its status no longer allows
+export class HazardConflictError extends Error {
+  constructor(
+    readonly current: HazardFeature,
+    message = "Hazard was changed by someone else"
+  ) {
+    super(message);
+    this.name = "HazardConflictError";
+  }
+}
+
+// Hazards saved before reports were reviewed were already routed around
+const LEGACY_REVIEW: HazardReview = {
+  status: "approved",
+  confirmedBy: [],
+  disputedBy: [],
+  reviewedBy: "",
+  proposal: null,
+};
+
+// Route handlers may be bundled separately; they must share one copy of the
+// hazards and one write queue, or one could save over another's writes
+const g = globalThis as typeof globalThis & {
+  __hazardStore?: { cache: HazardFeature[] | null; queue: Promise<unknown> };
+};
+const state = (g.__hazardStore ??= { cache: null, queue: Promise.resolve() });
+
+// Files written by older versions lack newer properties (or properties at all)
+function upgrade(record: any): HazardFeature {
+  if (record?.type === "Feature")
+    return {
+      ...record,
+      properties: {
+        ...DEFAULT_HAZARD_DRAFT,
+        ...LEGACY_REVIEW,
+        updatedBy: "",
+        version: 1,
+        ...record.properties,
+      },
+    } as HazardFeature;
+  return {
+    type: "Feature",
+    id: record.id,
+    geometry: record.geometry,
+    properties: {
+      ...DEFAULT_HAZARD_DRAFT,
+      ...LEGACY_REVIEW,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+      updatedBy: "",
+      version: 1,
+    },
+  };
+}
+
+async function load(): Promise<HazardFeature[]> {
+  if (state.cache) return state.cache;
+  try {
+    const raw = await fs.readFile(STORE_PATH, "utf8");
+    const parsed = JSON.parse(raw);
+    // Shapes stored before geometry was validated strictly are dropped, so
+    // one broken record can't break every client's map
+    state.cache = Array.isArray(parsed)
+      ? parsed.map(upgrade).filter((h) => isHazardGeometry(h.geometry))
+      : [];
+  } catch (e: any) {
+    if (e?.code !== "ENOENT") throw e;
+    state.cache = [];
+  }
+  return state.cache;
+}
+
+async function save(list: HazardFeature[]) {
+  await fs.mkdir(path.dirname(STORE_PATH), { recursive: true });
+  const tmp = `${STORE_PATH}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(list, null, 2), "utf8");
+  await fs.rename(tmp, STORE_PATH);
+  state.cache = list;
+}
+
+// Mutations run one after another so concurrent requests can't lose writes
+function exclusive<T>(fn: () => Promise<T>): Promise<T> {
+  const run = state.queue.then(fn, fn);
+  state.queue = run.catch(() => {});
+  return run;
+}
+
+export const hazardStore = {
+  async list() {
+    return [...(await load())];
+  },
+
+  // Moderators' own reports skip review (status "approved")
+  create(
+    geometry: Hazard,
+    draft: Partial<HazardDraft>,
+    { by = "", status = "pending" }: { by?: string; status?: HazardStatus } = {}
+  ) {
+    return exclusive(async () => {
+      const list = await load();
+      const now = new Date().toISOString();
+      const hazard: HazardFeature = {
+        type: "Feature",
+        id: randomUUID(),
+        geometry,
+        properties: {
+          ...DEFAULT_HAZARD_DRAFT,
+          ...draft,
+          status,
+          confirmedBy: [],
+          disputedBy: [],
+          reviewedBy: status === "pending" ? "" : by,
+          proposal: null,
+          createdAt: now,
+          updatedAt: now,
+          updatedBy: by,
+          version: 1,
+        },
+      };
+      await save([...list, hazard]);
+      return hazard;
+    });
+  },
+
+  // baseVersion: the version the change was made against (omit to force).
+  // A non-moderator's edit changes a pending report in place (clearing its
+  // votes); on a reviewed report it's held as a proposal for a moderator
+  update(
+    id: string,
+    patch: { geometry?: Hazard; properties?: Partial<HazardDraft> },
+    {
+      by = "",
+      baseVersion,
+      moderator = true,
+    }: { by?: string; baseVersion?: number; moderator?: boolean } = {}
+  ) {
+    return exclusive(async () => {
+      const list = await load();
+      const existing = list.find((h) => h.id === id);
+      if (!existing) return null;
+      if (baseVersion != null && baseVersion !== existing.properties.version)
+        throw new HazardConflictError(existing);
+      const prev = existing.properties;
+      const propose = !moderator && prev.status !== "pending";
+      const hazard: HazardFeature = {
+        ...existing,
+        geometry: propose
+          ? existing.geometry
+          : (patch.geometry ?? existing.geometry),
+        properties: {
+          ...prev,
+          ...(propose
+            ? {
+                proposal: {
+                  geometry: patch.geometry ?? prev.proposal?.geometry,
+                  properties: {
+                    ...prev.proposal?.properties,
+                    ...patch.properties,
+                  },
+                  by,
+                  at: new Date().toISOString(),
+                },
+              }
+            : {
+                ...patch.properties,
+                ...(moderator ? {} : { confirmedBy: [], disputedBy: [] }),
+              }),
+          updatedAt: new Date().toISOString(),
+          updatedBy: by,
+          version: existing.properties.version + 1,
+        },
+      };
+      await save(list.map((h) => (h.id === id ? hazard : h)));
+      return hazard;
+    });
+  },
+
+  review(id: string, action: HazardReviewAction, by: string) {
+    return exclusive(async () => {
+      const list = await load();
+      const existing = list.find((h) => h.id === id);
+      if (!existing) return null;
+      const reviewed = reviewHazard(existing, action, by);
+      if (!reviewed) {
+        throw new HazardConflictError(
+          existing,
+          `"${HAZARD_REVIEW_ACTIONS[action].label}" doesn't apply to this report any more`
+        );
+      }
+      const hazard: HazardFeature = {
+        ...reviewed,
+        properties: {
+          ...reviewed.properties,
+          updatedAt: new Date().toISOString(),
+          updatedBy: by,
+          version: existing.properties.version + 1,
+        },
+      };
+      await save(list.map((h) => (h.id === id ? hazard : h)));
+      return hazard;
+    });
+  },
+
+  remove(id: string, baseVersion?: number) {
+    return exclusive(async () => {
+      const list = await load();
+      const existing = list.find((h) => h.id === id);
+      if (!existing) return false;
+      if (baseVersion != null && baseVersion !== existing.properties.version)
+        throw new HazardConflictError(existing);
+      await save(list.filter((h) => h.id !== id));
+      return true;
+    });
+  },
+
+  clear() {
+    return exclusive(() => save([]));
+  },
+};
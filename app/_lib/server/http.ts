@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+
+/* ---------- Normalised API errors: { error, code } ---------- */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly headers?: Record<string, string>
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export function errorResponse(e: unknown) {
+  if (e instanceof ApiError) {
+    return NextResponse.json(
+      { error: e.message, code: e.code },
+      { status: e.status, headers: e.headers }
+    );
+  }
+  console.error(e);
+  return NextResponse.json(
+    { error: "Unexpected server error", code: "internal_error" },
+    { status: 500 }
+  );
+}
+
+// Proxies in front of the app that append to X-Forwarded-For. The header is
+// client-controlled, so it is only read behind them. With 0 every caller
+// shares one set of limits, which only suits a single-user install, so a
+// production server won't guess and refuses until it's set
+function trustedProxyHops() {
+  const value = process.env.TRUSTED_PROXY_HOPS;
+  if (!value && process.env.NODE_ENV !== "production") return 0;
+  const hops = Number(value);
+  if (!value || !Number.isInteger(hops) || hops < 0) {
+    throw new ApiError(
+      503,
+      "not_configured",
+      "Rate limiting is not configured (TRUSTED_PROXY_HOPS missing or invalid)."
+    );
+  }
+  return hops;
+}
+
+// Client identity for rate limiting: the address the outermost trusted
+// proxy saw, i.e. the entry it appended, counted from the end
+export function clientKey(request: Request) {
+  const trusted = trustedProxyHops();
+  if (!trusted) return "anonymous";
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((h) => h.trim())
+    .filter(Boolean);
+  return hops[hops.length - trusted] ?? "anonymous";
+}
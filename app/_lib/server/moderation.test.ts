@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+// Keys are read when the module loads, so each case loads it afresh
+async function moderation(keys = "") {
+  vi.resetModules();
+  vi.stubEnv("MODERATOR_KEYS", keys);
+  return import("./moderation");
+}
+afterEach(() => vi.unstubAllEnvs());
+
+const withKey = (key?: string) =>
+  new Request("http://localhost/", {
+    headers: key ? { "x-moderator-key": key } : {},
+  });
+
+describe("isModerator", () => {
+  it("grants nobody moderation when no keys are configured", async () => {
+    const { isModerator, moderationConfigured } = await moderation();
+    expect(moderationConfigured).toBe(false);
+    expect(isModerator(withKey())).toBe(false);
+    expect(isModerator(withKey("anything"))).toBe(false);
+  });
+
+  it("accepts only a configured key", async () => {
+    const { isModerator } = await moderation("alpha, beta");
+    expect(isModerator(withKey("beta"))).toBe(true);
+    expect(isModerator(withKey("gamma"))).toBe(false);
+    expect(isModerator(withKey())).toBe(false);
+  });
+});
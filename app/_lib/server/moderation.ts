@@ -0,0 +1,24 @@
+import { createHash, timingSafeEqual } from "crypto";
+
+/* ---------- Moderator keys (MODERATOR_KEYS, comma separated) ---------- */
+const KEYS = (process.env.MODERATOR_KEYS ?? "")
+  .split(",")
+  .map((k) => k.trim())
+  .filter(Boolean)
+  .map(digest);
+
+function digest(key: string) {
+  return createHash("sha256").update(key).digest();
+}
+
+// With no keys configured nobody moderates: reports stay pending (and so
+// don't steer routes) and nothing can be approved or deleted until keys are set
+export const moderationConfigured = KEYS.length > 0;
+
+export function isModerator(request: Request) {
+  if (!moderationConfigured) return false;
+  const key = request.headers.get("x-moderator-key");
+  if (!key) return false;
+  const d = digest(key);
+  return KEYS.some((k) => timingSafeEqual(k, d));
+}
@@ -0,0 +1,25 @@
+import { ApiError } from "./http";
+import { fetchUpstreamJson } from "./upstream";
+
+/* ---------- OpenRouteService upstream (key stays on the server) ---------- */
+const ORS_BASE_URL =
+  process.env.ORS_BASE_URL || "https://api.openrouteservice.org";
+
+function orsKey() {
+  const key = process.env.ORS_KEY;
+  if (!key) {
+    throw new ApiError(
+      503,
+      "not_configured",
+      "Routing is not configured (ORS_KEY missing)."
+    );
+  }
+  return key;
+}
+
+export function orsFetch<T>(path: string, init?: RequestInit): Promise<T> {
+  return fetchUpstreamJson<T>("OpenRouteService", `${ORS_BASE_URL}${path}`, {
+    ...init,
+    headers: { Authorization: orsKey(), ...init?.headers },
+  });
+}
@@ -0,0 +1,38 @@
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+/* ---------- Report photos: one file each, named by id ---------- */
+const STORE_DIR =
+  process.env.PHOTO_STORE_DIR || path.join(process.cwd(), "data", "photos");
+
+export const PHOTO_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+export const photoStore = {
+  async create(bytes: Uint8Array, type: string) {
+    await fs.mkdir(STORE_DIR, { recursive: true });
+    const id = randomBytes(9).toString("base64url");
+    await fs.writeFile(
+      path.join(STORE_DIR, `${id}.${PHOTO_TYPES[type]}`),
+      bytes
+    );
+    return id;
+  },
+
+  async get(id: string) {
+    if (!/^[\w-]+$/.test(id)) return null;
+    for (const [type, ext] of Object.entries(PHOTO_TYPES)) {
+      try {
+        const bytes = await fs.readFile(path.join(STORE_DIR, `${id}.${ext}`));
+        return { bytes, type };
+      } catch (e: any) {
+        if (e?.code !== "ENOENT") throw e;
+      }
+    }
+    return null;
+  },
+};
@@ -0,0 +1,37 @@
+import { ApiError } from "./http";
+
+/* ---------- Per-client token bucket ---------- */
+export function createRateLimiter(perMinute: number) {
+  const buckets = new Map<string, { tokens: number; updated: number }>();
+  const refillPerMs = perMinute / 60_000;
+
+  return {
+    // Throws a 429 ApiError when the client has no tokens left
+    take(key: string) {
+      const now = Date.now();
+      const b = buckets.get(key) ?? { tokens: perMinute, updated: now };
+      b.tokens = Math.min(
+        perMinute,
+        b.tokens + (now - b.updated) * refillPerMs
+      );
+      b.updated = now;
+      if (b.tokens < 1) {
+        buckets.set(key, b);
+        const retryAfter = Math.ceil((1 - b.tokens) / refillPerMs / 1000);
+        throw new ApiError(
+          429,
+          "rate_limited",
+          `Too many requests. Try again in ${retryAfter}s.`,
+          { "Retry-After": String(retryAfter) }
+        );
+      }
+      b.tokens -= 1;
+      buckets.set(key, b);
+      // Drop idle, fully refilled buckets so the map doesn't grow forever
+      if (buckets.size > 10_000) {
+        for (const [k, v] of buckets)
+          if (now - v.updated > 60_000) buckets.delete(k);
+      }
+    },
+  };
+}
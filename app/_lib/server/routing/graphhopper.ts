@@ -0,0 +1,138 @@
+import type {
+  LngLat,
+  NormalizedRoute,
+  RouteStep,
+  RouteSummary,
+  TravelProfile,
+} from "../../routing";
+import { ApiError } from "../http";
+import { fetchUpstreamJson } from "../upstream";
+import type { RoutingProvider } from "./types";
+
+const GRAPHHOPPER_BASE_URL =
+  process.env.GRAPHHOPPER_BASE_URL || "https://graphhopper.com/api/1";
+
+const GRAPHHOPPER_PROFILES: Record<TravelProfile, string> = {
+  car: "car",
+  hgv: "truck",
+  bike: "bike",
+  foot: "foot",
+};
+
+function normalize(path: any): NormalizedRoute {
+  const steps: RouteStep[] = [];
+  // GraphHopper has no per-leg summary; "via reached" (sign 5) ends a segment
+  const segments: RouteSummary[] = [{ distance: 0, duration: 0 }];
+  for (const i of path.instructions ?? []) {
+    steps.push({
+      instruction: i.text,
+      distance: i.distance,
+      duration: i.time / 1000,
+      wayPoints: i.interval as [number, number],
+    });
+    const seg = segments[segments.length - 1];
+    seg.distance += i.distance;
+    seg.duration += i.time / 1000;
+    if (i.sign === 5) segments.push({ distance: 0, duration: 0 });
+  }
+  return {
+    provider: "graphhopper",
+    geometry: path.points.coordinates as LngLat[],
+    steps,
+    summary: { distance: path.distance, duration: path.time / 1000 },
+    segments,
+  };
+}
+
+// Hazards are excluded through a custom model area with zero priority
+export const graphhopperProvider: RoutingProvider = {
+  name: "graphhopper",
+
+  async route({ coordinates, avoidPolygons, options }) {
+    const key = process.env.GRAPHHOPPER_KEY;
+    const qs = key ? `?key=${encodeURIComponent(key)}` : "";
+    const customModel: any = { priority: [] };
+    if (avoidPolygons) {
+      customModel.areas = {
+        type: "FeatureCollection",
+        features: [
+          {
+            type: "Feature",
+            id: "hazards",
+            properties: {},
+            geometry: avoidPolygons,
+          },
+        ],
+      };
+      customModel.priority.push({ if: "in_hazards", multiply_by: "0" });
+    }
+    for (const f of options?.avoidFeatures ?? []) {
+      if (f === "tollways")
+        customModel.priority.push({ if: "toll == ALL", multiply_by: "0" });
+      if (f === "ferries")
+        customModel.priority.push({
+          if: "road_environment == FERRY",
+          multiply_by: "0",
+        });
+      if (f === "highways")
+        customModel.priority.push({
+          if: "road_class == MOTORWAY",
+          multiply_by: "0",
+        });
+    }
+    // Roads whose tagged limits the truck exceeds are off limits
+    const hgv = options?.profile === "hgv" ? options.hgv : undefined;
+    if (hgv?.heightM)
+      customModel.priority.push({
+        if: `max_height < ${hgv.heightM}`,
+        multiply_by: "0",
+      });
+    if (hgv?.weightT)
+      customModel.priority.push({
+        if: `max_weight < ${hgv.weightT}`,
+        multiply_by: "0",
+      });
+    if (hgv?.axleLoadT)
+      customModel.priority.push({
+        if: `max_axle_load < ${hgv.axleLoadT}`,
+        multiply_by: "0",
+      });
+    if (hgv?.hazmat)
+      customModel.priority.push({ if: "hazmat == NO", multiply_by: "0" });
+
+    // The alternative route algorithm only handles two points
+    const alternatives =
+      coordinates.length === 2 ? (options?.alternatives ?? 0) : 0;
+    const data = await fetchUpstreamJson<any>(
+      "GraphHopper",
+      `${GRAPHHOPPER_BASE_URL}/route${qs}`,
+      {
+        method: "POST",
+        body: JSON.stringify({
+          points: coordinates,
+          profile: GRAPHHOPPER_PROFILES[options?.profile ?? "car"],
+          points_encoded: false,
+          instructions: true,
+          locale: options?.language ?? "en",
+          "ch.disable": true,
+          custom_model: customModel,
+          ...(alternatives > 0 && {
+            algorithm: "alternative_route",
+            "alternative_route.max_paths": alternatives + 1,
+          }),
+        }),
+      }
+    );
+    const [path, ...rest] = data.paths ?? [];
+    if (!path)
+      throw new ApiError(
+        502,
+        "upstream_unavailable",
+        "GraphHopper returned no route."
+      );
+    return {
+      ...normalize(path),
+      alternatives: rest.length ? rest.map(normalize) : undefined,
+    };
+  },
+};
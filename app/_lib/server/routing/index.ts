@@ -0,0 +1,31 @@
+import { ApiError } from "../http";
+import { graphhopperProvider } from "./graphhopper";
+import { mockProvider } from "./mock";
+import { orsProvider } from "./ors";
+import { osrmProvider } from "./osrm";
+import type { RoutingProvider } from "./types";
+import { valhallaProvider } from "./valhalla";
+
+export type { RoutingProvider } from "./types";
+
+const PROVIDERS: Record<string, RoutingProvider> = {
+  ors: orsProvider,
+  osrm: osrmProvider,
+  graphhopper: graphhopperProvider,
+  valhalla: valhallaProvider,
+  mock: mockProvider,
+};
+
+// Chosen by ROUTING_PROVIDER (default: ors)
+export function getRoutingProvider(): RoutingProvider {
+  const name = (process.env.ROUTING_PROVIDER || "ors").toLowerCase();
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new ApiError(
+      503,
+      "not_configured",
+      `Unknown ROUTING_PROVIDER "${name}" (expected ${Object.keys(PROVIDERS).join(", ")}).`
+    );
+  }
+  return provider;
+}
@@ -0,0 +1,137 @@
+import * as turf from "@turf/turf";
+
+import {
+  TRAVEL_PROFILES,
+  type LngLat,
+  type NormalizedRoute,
+  type RouteStep,
+  type RouteSummary,
+} from "../../routing";
+import type { RoutingProvider } from "./types";
+
+const MOCK_SAMPLE_KM = 0.25;
+// Alternatives bow out to either side by this fraction of the leg length
+const MOCK_ALTERNATIVE_BENDS = [0.2, -0.2];
+
+// Straight leg, or a dog-leg around the bbox of any hazard it would cross;
+// a bend routes the leg through a point off to one side first
+function legPath(
+  a: LngLat,
+  b: LngLat,
+  avoid: GeoJSON.MultiPolygon | null | undefined,
+  bend = 0
+): LngLat[] {
+  if (bend) {
+    const mid = turf.destination(
+      turf.midpoint(a, b),
+      turf.distance(a, b) * Math.abs(bend),
+      turf.bearing(a, b) + (bend > 0 ? 90 : -90)
+    ).geometry.coordinates as LngLat;
+    return [...legPath(a, mid, avoid), ...legPath(mid, b, avoid).slice(1)];
+  }
+  if (!avoid) return [a, b];
+  const line = turf.lineString([a, b]);
+  const hits = avoid.coordinates.filter((p) =>
+    turf.booleanIntersects(line, turf.polygon(p))
+  );
+  if (!hits.length) return [a, b];
+  const [minX, minY, maxX, maxY] = turf.bbox(
+    turf.multiPolygon(hits.map((p) => p))
+  );
+  const padX = (maxX - minX) * 0.1 + 0.001;
+  const padY = (maxY - minY) * 0.1 + 0.001;
+  const [x0, y0, x1, y1] = [minX - padX, minY - padY, maxX + padX, maxY + padY];
+  const options: LngLat[][] = [
+    [a, [x0, y0], [x0, y1], b],
+    [a, [x1, y0], [x1, y1], b],
+    [a, [x0, y0], [x1, y0], b],
+    [a, [x0, y1], [x1, y1], b],
+  ];
+  const len = (p: LngLat[]) => turf.length(turf.lineString(p));
+  return options.sort((p, q) => len(p) - len(q))[0];
+}
+
+function mockRoute(
+  coordinates: LngLat[],
+  avoidPolygons: GeoJSON.MultiPolygon | null | undefined,
+  bend: number,
+  speedKmh: number
+): NormalizedRoute {
+  const geometry: LngLat[] = [coordinates[0]];
+  const steps: RouteStep[] = [];
+  const segments: RouteSummary[] = [];
+  let distance = 0;
+
+  for (let i = 1; i < coordinates.length; i++) {
+    const legStart = distance;
+    const corners = legPath(
+      coordinates[i - 1],
+      coordinates[i],
+      avoidPolygons,
+      bend
+    );
+    for (let c = 1; c < corners.length; c++) {
+      const seg = turf.lineString([corners[c - 1], corners[c]]);
+      const km = turf.length(seg);
+      const n = Math.max(1, Math.ceil(km / MOCK_SAMPLE_KM));
+      const from = geometry.length - 1;
+      for (let k = 1; k <= n; k++) {
+        geometry.push(
+          turf.along(seg, (km * k) / n).geometry.coordinates as LngLat
+        );
+      }
+      const bearing = Math.round(
+        (turf.bearing(corners[c - 1], corners[c]) + 360) % 360
+      );
+      steps.push({
+        instruction: `${c === 1 && i === 1 ? "Head" : "Continue"} on bearing ${bearing}°`,
+        distance: km * 1000,
+        duration: (km / speedKmh) * 3600,
+        wayPoints: [from, geometry.length - 1],
+      });
+      distance += km * 1000;
+    }
+    const legMeters = distance - legStart;
+    segments.push({
+      distance: legMeters,
+      duration: (legMeters / 1000 / speedKmh) * 3600,
+    });
+  }
+  const last = geometry.length - 1;
+  steps.push({
+    instruction: "Arrive at destination",
+    distance: 0,
+    duration: 0,
+    wayPoints: [last, last],
+  });
+  return {
+    provider: "mock",
+    geometry,
+    steps,
+    summary: {
+      distance,
+      duration: (distance / 1000 / speedKmh) * 3600,
+    },
+    segments,
+  };
+}
+
+// Deterministic, in-process provider for tests and demos (no network)
+export const mockProvider: RoutingProvider = {
+  name: "mock",
+
+  async route({ coordinates, avoidPolygons, options }) {
+    const bends =
+      coordinates.length === 2
+        ? MOCK_ALTERNATIVE_BENDS.slice(0, options?.alternatives ?? 0)
+        : [];
+    // Travels at the profile's typical speed
+    const speed = TRAVEL_PROFILES[options?.profile ?? "car"].speedKmh;
+    return {
+      ...mockRoute(coordinates, avoidPolygons, 0, speed),
+      alternatives: bends.length
+        ? bends.map((b) => mockRoute(coordinates, avoidPolygons, b, speed))
+        : undefined,
+    };
+  },
+};
@@ -0,0 +1,116 @@
+import * as turf from "@turf/turf";
+
+import type {
+  LngLat,
+  NormalizedRoute,
+  RouteOptions,
+  RouteStep,
+  TravelProfile,
+} from "../../routing";
+import { ApiError } from "../http";
+import { orsFetch } from "../ors";
+import type { RoutingProvider } from "./types";
+
+// ORS only computes alternatives for two-point routes up to 100 km
+const ORS_MAX_ALTERNATIVES_KM = 100;
+
+const ORS_PROFILES: Record<TravelProfile, string> = {
+  car: "driving-car",
+  hgv: "driving-hgv",
+  bike: "cycling-regular",
+  foot: "foot-walking",
+};
+
+function orsOptions(options: RouteOptions | undefined) {
+  const profile = options?.profile ?? "car";
+  const driving = profile === "car" || profile === "hgv";
+  // Tolls and highways only exist for the driving profiles
+  const avoid = (options?.avoidFeatures ?? []).filter(
+    (f) => driving || f === "ferries"
+  );
+  if (profile !== "hgv") return { avoid_features: avoid };
+  const hgv = options?.hgv ?? {};
+  return {
+    avoid_features: avoid,
+    vehicle_type: "hgv",
+    profile_params: {
+      restrictions: {
+        height: hgv.heightM,
+        weight: hgv.weightT,
+        axleload: hgv.axleLoadT,
+        hazmat: hgv.hazmat || undefined,
+      },
+    },
+  };
+}
+
+function normalize(feature: any): NormalizedRoute {
+  const segments: any[] = feature?.properties?.segments ?? [];
+  const steps: RouteStep[] = segments.flatMap((seg) =>
+    (seg.steps ?? []).map((s: any) => ({
+      instruction: s.instruction as string,
+      distance: s.distance as number,
+      duration: s.duration as number,
+      wayPoints: s.way_points as [number, number],
+    }))
+  );
+  return {
+    provider: "ors",
+    geometry: (feature?.geometry?.coordinates ?? []) as LngLat[],
+    steps,
+    summary: {
+      distance: feature?.properties?.summary?.distance ?? 0,
+      duration: feature?.properties?.summary?.duration ?? 0,
+    },
+    segments: segments.map((seg) => ({
+      distance: seg.distance ?? 0,
+      duration: seg.duration ?? 0,
+    })),
+  };
+}
+
+export const orsProvider: RoutingProvider = {
+  name: "ors",
+
+  async route({ coordinates, avoidPolygons, options }) {
+    const alternatives =
+      options?.alternatives &&
+      coordinates.length === 2 &&
+      turf.distance(coordinates[0], coordinates[1]) < ORS_MAX_ALTERNATIVES_KM
+        ? options.alternatives
+        : 0;
+    const profile = ORS_PROFILES[options?.profile ?? "car"];
+    const geo = await orsFetch<any>(`/v2/directions/${profile}/geojson`, {
+      method: "POST",
+      body: JSON.stringify({
+        coordinates,
+        elevation: false,
+        instructions: true,
+        language: options?.language ?? "en",
+        options: {
+          avoid_polygons: avoidPolygons || undefined,
+          ...orsOptions(options),
+        },
+        alternative_routes: alternatives
+          ? {
+              target_count: alternatives + 1,
+              share_factor: 0.6,
+              weight_factor: 1.6,
+            }
+          : undefined,
+      }),
+    });
+
+    const [best, ...rest] = ((geo.features ?? []) as any[]).map(normalize);
+    if (!best)
+      throw new ApiError(
+        502,
+        "upstream_unavailable",
+        "OpenRouteService returned no route."
+      );
+    return {
+      ...best,
+      alternatives: rest.length ? rest : undefined,
+    };
+  },
+};
@@ -0,0 +1,119 @@
+import * as turf from "@turf/turf";
+
+import type {
+  AvoidFeature,
+  LngLat,
+  NormalizedRoute,
+  RouteStep,
+  TravelProfile,
+} from "../../routing";
+import { ApiError } from "../http";
+import { fetchUpstreamJson } from "../upstream";
+import type { RoutingProvider } from "./types";
+
+const OSRM_BASE_URL =
+  process.env.OSRM_BASE_URL || "https://router.project-osrm.org";
+
+// HGV restrictions are not supported; trucks get the car network
+const OSRM_PROFILES: Record<TravelProfile, string> = {
+  car: "driving",
+  hgv: "driving",
+  bike: "cycling",
+  foot: "foot",
+};
+// Exclude classes as named in OSRM's stock car profile
+const OSRM_EXCLUDES: Record<AvoidFeature, string> = {
+  tollways: "toll",
+  ferries: "ferry",
+  highways: "motorway",
+};
+
+// OSRM returns maneuver codes rather than text
+function instructionFor(step: any) {
+  const { type, modifier } = step.maneuver ?? {};
+  const onto = step.name ? ` onto ${step.name}` : "";
+  if (type === "depart") return `Head ${modifier ?? "out"}${onto}`;
+  if (type === "arrive") return "Arrive at destination";
+  if (type === "roundabout" || type === "rotary")
+    return `Enter the roundabout, take exit ${step.maneuver.exit ?? ""}`.trim();
+  const verb = type === "turn" || type === "end of road" ? "Turn" : "Continue";
+  return `${verb}${modifier ? ` ${modifier}` : ""}${onto}`;
+}
+
+function normalize(route: any): NormalizedRoute {
+  const geometry = route.geometry.coordinates as LngLat[];
+  const steps: RouteStep[] = [];
+  let index = 0;
+  for (const leg of route.legs ?? []) {
+    for (const s of leg.steps ?? []) {
+      const n = Math.max(0, (s.geometry?.coordinates?.length ?? 1) - 1);
+      steps.push({
+        instruction: instructionFor(s),
+        distance: s.distance,
+        duration: s.duration,
+        wayPoints: [index, index + n],
+      });
+      index += n;
+    }
+  }
+  return {
+    provider: "osrm",
+    geometry,
+    steps,
+    summary: { distance: route.distance, duration: route.duration },
+    segments: (route.legs ?? []).map((leg: any) => ({
+      distance: leg.distance,
+      duration: leg.duration,
+    })),
+  };
+}
+
+// OSRM has no avoid-area support: ask for alternatives and take the first one
+// that stays clear of the hazards, warning when none does; the rest are
+// offered as alternatives when asked for
+export const osrmProvider: RoutingProvider = {
+  name: "osrm",
+
+  async route({ coordinates, avoidPolygons, options }) {
+    const path = coordinates.map(([lng, lat]) => `${lng},${lat}`).join(";");
+    const profile = OSRM_PROFILES[options?.profile ?? "car"];
+    const exclude =
+      profile === "driving"
+        ? (options?.avoidFeatures ?? []).map((f) => OSRM_EXCLUDES[f]).join(",")
+        : "";
+    const data = await fetchUpstreamJson<any>(
+      "OSRM",
+      `${OSRM_BASE_URL}/route/v1/${profile}/${path}?overview=full&geometries=geojson&steps=true&alternatives=${
+        coordinates.length === 2 ? 3 : "false"
+      }${exclude ? `&exclude=${exclude}` : ""}`
+    );
+    const routes = (data.routes ?? []).map(normalize) as NormalizedRoute[];
+    if (!routes.length)
+      throw new ApiError(
+        502,
+        "upstream_unavailable",
+        "OSRM returned no route."
+      );
+    const others = (best: NormalizedRoute) => {
+      const rest = routes
+        .filter((r) => r !== best)
+        .slice(0, options?.alternatives ?? 0);
+      return rest.length ? rest : undefined;
+    };
+    if (!avoidPolygons)
+      return { ...routes[0], alternatives: others(routes[0]) };
+
+    const hazards = turf.feature(avoidPolygons);
+    const clear = routes.find(
+      (r) =>
+        r.geometry.length < 2 ||
+        !turf.booleanIntersects(turf.lineString(r.geometry), hazards)
+    );
+    if (clear) return { ...clear, alternatives: others(clear) };
+    return {
+      ...routes[0],
+      warnings: ["OSRM could not avoid every hazard; this route crosses one."],
+      alternatives: others(routes[0]),
+    };
+  },
+};
@@ -0,0 +1,27 @@
+import type { LngLat } from "../../routing";
+
+// Decodes a Google-style encoded polyline (Valhalla uses precision 6)
+export function decodePolyline(encoded: string, precision = 6): LngLat[] {
+  const factor = Math.pow(10, precision);
+  const out: LngLat[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+  while (index < encoded.length) {
+    for (const axis of [0, 1]) {
+      let shift = 0;
+      let result = 0;
+      let byte: number;
+      do {
+        byte = encoded.charCodeAt(index++) - 63;
+        result |= (byte & 0x1f) << shift;
+        shift += 5;
+      } while (byte >= 0x20);
+      const delta = result & 1 ? ~(result >> 1) : result >> 1;
+      if (axis === 0) lat += delta;
+      else lng += delta;
+    }
+    out.push([lng / factor, lat / factor]);
+  }
+  return out;
+}
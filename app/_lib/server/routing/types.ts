@@ -0,0 +1,7 @@
+import type { NormalizedRoute, RouteRequest } from "../../routing";
+
+/* ---------- Routing provider contract ---------- */
+export type RoutingProvider = {
+  name: string;
+  route(request: RouteRequest): Promise<NormalizedRoute>;
+};
@@ -0,0 +1,122 @@
+import {
+  INSTRUCTION_LANGUAGES,
+  type InstructionLanguage,
+  type LngLat,
+  type NormalizedRoute,
+  type RouteOptions,
+  type RouteStep,
+  type TravelProfile,
+} from "../../routing";
+import { ApiError } from "../http";
+import { fetchUpstreamJson } from "../upstream";
+import { decodePolyline } from "./polyline";
+import type { RoutingProvider } from "./types";
+
+const VALHALLA_BASE_URL =
+  process.env.VALHALLA_BASE_URL || "https://valhalla1.openstreetmap.de";
+
+const VALHALLA_COSTING: Record<TravelProfile, string> = {
+  car: "auto",
+  hgv: "truck",
+  bike: "bicycle",
+  foot: "pedestrian",
+};
+
+// Valhalla has no Indonesian narrative; fall back to English for it
+function valhallaLanguage(language: InstructionLanguage = "en") {
+  return language === "id" ? "en-US" : INSTRUCTION_LANGUAGES[language].tag;
+}
+
+function costingOptions(options: RouteOptions | undefined) {
+  const avoid = new Set(options?.avoidFeatures ?? []);
+  const profile = options?.profile ?? "car";
+  const costing = VALHALLA_COSTING[profile];
+  if (profile === "foot" || profile === "bike")
+    return { [costing]: { use_ferry: avoid.has("ferries") ? 0 : 0.5 } };
+  const hgv = profile === "hgv" ? (options?.hgv ?? {}) : {};
+  return {
+    [costing]: {
+      use_tolls: avoid.has("tollways") ? 0 : 0.5,
+      use_ferry: avoid.has("ferries") ? 0 : 0.5,
+      use_highways: avoid.has("highways") ? 0 : 1,
+      height: hgv.heightM,
+      weight: hgv.weightT,
+      axle_load: hgv.axleLoadT,
+      hazmat: hgv.hazmat || undefined,
+    },
+  };
+}
+
+// Legs each restart shape indices at 0 and repeat the joint point
+function normalize(trip: any): NormalizedRoute {
+  const legs: any[] = trip.legs;
+  const geometry: LngLat[] = [];
+  const steps: RouteStep[] = [];
+  for (const leg of legs) {
+    const offset = Math.max(0, geometry.length - 1);
+    const shape = decodePolyline(leg.shape, 6);
+    geometry.push(...(geometry.length ? shape.slice(1) : shape));
+    for (const m of leg.maneuvers ?? []) {
+      steps.push({
+        instruction: m.instruction,
+        distance: m.length * 1000,
+        duration: m.time,
+        wayPoints: [offset + m.begin_shape_index, offset + m.end_shape_index],
+      });
+    }
+  }
+  return {
+    provider: "valhalla",
+    geometry,
+    steps,
+    summary: {
+      distance: (trip.summary?.length ?? 0) * 1000,
+      duration: trip.summary?.time ?? 0,
+    },
+    segments: legs.map((leg) => ({
+      distance: (leg.summary?.length ?? 0) * 1000,
+      duration: leg.summary?.time ?? 0,
+    })),
+  };
+}
+
+export const valhallaProvider: RoutingProvider = {
+  name: "valhalla",
+
+  async route({ coordinates, avoidPolygons, options }) {
+    const data = await fetchUpstreamJson<any>(
+      "Valhalla",
+      `${VALHALLA_BASE_URL}/route`,
+      {
+        method: "POST",
+        body: JSON.stringify({
+          locations: coordinates.map(([lon, lat]) => ({ lat, lon })),
+          costing: VALHALLA_COSTING[options?.profile ?? "car"],
+          costing_options: costingOptions(options),
+          // Valhalla wants outer rings only
+          exclude_polygons: avoidPolygons?.coordinates.map((p) => p[0]) ?? [],
+          directions_options: {
+            units: "kilometers",
+            language: valhallaLanguage(options?.language),
+          },
+          // Valhalla only computes alternates between two locations
+          alternates:
+            coordinates.length === 2 ? (options?.alternatives ?? 0) : 0,
+        }),
+      }
+    );
+    if (!data.trip?.legs?.length)
+      throw new ApiError(
+        502,
+        "upstream_unavailable",
+        "Valhalla returned no route."
+      );
+    const rest = (data.alternates ?? [])
+      .filter((a: any) => a.trip?.legs?.length)
+      .map((a: any) => normalize(a.trip));
+    return {
+      ...normalize(data.trip),
+      alternatives: rest.length ? rest : undefined,
+    };
+  },
+};
@@ -0,0 +1,35 @@
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+
+// The store reads its path when loaded, so it's imported after setting it
+let shareStore: typeof import("./shareStore").shareStore;
+beforeAll(async () => {
+  const dir = mkdtempSync(path.join(tmpdir(), "share-store-"));
+  process.env.SHARE_STORE_PATH = path.join(dir, "shares.json");
+  ({ shareStore } = await import("./shareStore"));
+});
+afterEach(() => vi.useRealTimers());
+
+describe("shareStore", () => {
+  it("returns what was stored under the new id", async () => {
+    const id = await shareStore.create("abc");
+    expect(await shareStore.get(id)).toMatchObject({ data: "abc" });
+  });
+
+  it("has no shares under inherited object keys", async () => {
+    expect(await shareStore.get("constructor")).toBeNull();
+    expect(await shareStore.get("__proto__")).toBeNull();
+  });
+
+  it("forgets shares after 90 days", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    const old = await shareStore.create("old");
+    vi.setSystemTime(new Date("2026-04-15T00:00:00Z"));
+    expect(await shareStore.get(old)).toBeNull();
+    const fresh = await shareStore.create("fresh");
+    expect(await shareStore.get(fresh)).toMatchObject({ data: "fresh" });
+  });
+});
@@ -0,0 +1,88 @@
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+/* ---------- Short links: encoded scenarios by id, in one JSON file ---------- */
+const STORE_PATH =
+  process.env.SHARE_STORE_PATH ||
+  path.join(process.cwd(), "data", "shares.json");
+// Links stop working after this long, and past the size cap the oldest go
+// first, so the file (rewritten on every share) can't grow without bound
+const SHARE_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+const MAX_STORE_CHARS = 50_000_000;
+
+type Share = { data: string; createdAt: string };
+
+// Route handlers may be bundled separately; keep one copy and queue per process
+const g = globalThis as typeof globalThis & {
+  __shareStore?: {
+    cache: Record<string, Share> | null;
+    queue: Promise<unknown>;
+  };
+};
+const state = (g.__shareStore ??= { cache: null, queue: Promise.resolve() });
+
+async function load(): Promise<Record<string, Share>> {
+  if (state.cache) return state.cache;
+  try {
+    state.cache = JSON.parse(await fs.readFile(STORE_PATH, "utf8")) ?? {};
+  } catch (e: any) {
+    if (e?.code !== "ENOENT") throw e;
+    state.cache = {};
+  }
+  return state.cache!;
+}
+
+async function save(all: Record<string, Share>) {
+  await fs.mkdir(path.dirname(STORE_PATH), { recursive: true });
+  const tmp = `${STORE_PATH}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(all), "utf8");
+  await fs.rename(tmp, STORE_PATH);
+  state.cache = all;
+}
+
+function expired(share: Share, now: number) {
+  return Date.parse(share.createdAt) + SHARE_TTL_MS < now;
+}
+
+// Unexpired shares, newest first, that fit the size cap together with
+// `reserve` more characters
+function kept(all: Record<string, Share>, now: number, reserve: number) {
+  let size = reserve;
+  const out: Record<string, Share> = {};
+  const newestFirst = Object.entries(all)
+    .filter(([, s]) => !expired(s, now))
+    .sort(([, a], [, b]) => b.createdAt.localeCompare(a.createdAt));
+  for (const [id, share] of newestFirst) {
+    size += share.data.length;
+    if (size > MAX_STORE_CHARS) break;
+    out[id] = share;
+  }
+  return out;
+}
+
+export const shareStore = {
+  async get(id: string) {
+    const all = await load();
+    if (!Object.hasOwn(all, id) || expired(all[id], Date.now())) return null;
+    return all[id];
+  },
+
+  // Writes are serialised like the hazard store's
+  create(data: string) {
+    const run = state.queue.then(async () => {
+      const now = Date.now();
+      const all = kept(await load(), now, data.length);
+      let id: string;
+      do id = randomBytes(6).toString("base64url");
+      while (Object.hasOwn(all, id));
+      await save({
+        ...all,
+        [id]: { data, createdAt: new Date(now).toISOString() },
+      });
+      return id;
+    });
+    state.queue = run.catch(() => {});
+    return run;
+  },
+};
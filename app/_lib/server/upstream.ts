@@ -0,0 +1,51 @@
+import { ApiError } from "./http";
+
+/* ---------- JSON fetch against third-party services ---------- */
+
+// Maps upstream failures onto our error codes; 4xx means it rejected the input
+async function upstreamError(service: string, res: Response) {
+  const text = await res.text();
+  let message = text;
+  try {
+    const data = JSON.parse(text);
+    message = data?.error?.message ?? data?.error ?? data?.message ?? text;
+  } catch {}
+  console.error(`${service} ${res.status}:`, text);
+  if (res.status === 429)
+    return new ApiError(
+      503,
+      "upstream_rate_limited",
+      `${service} is busy. Try again shortly.`
+    );
+  if (res.status >= 400 && res.status < 500)
+    return new ApiError(
+      400,
+      "upstream_rejected",
+      String(message || `Request rejected by ${service}.`)
+    );
+  return new ApiError(502, "upstream_unavailable", `${service} unavailable.`);
+}
+
+export async function fetchUpstreamJson<T>(
+  service: string,
+  url: string,
+  init?: RequestInit
+): Promise<T> {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      ...init,
+      headers: {
+        Accept: "application/json, application/geo+json",
+        ...(init?.body ? { "Content-Type": "application/json" } : {}),
+        ...init?.headers,
+      },
+      cache: "no-store",
+    });
+  } catch (e) {
+    console.error(e);
+    throw new ApiError(502, "upstream_unavailable", `${service} unreachable.`);
+  }
+  if (!res.ok) throw await upstreamError(service, res);
+  return (await res.json()) as T;
+}
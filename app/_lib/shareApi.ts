@@ -0,0 +1,17 @@
+import { apiRequest } from "./apiClient";
+
+/* ---------- Client for /api/share ---------- */
+export async function createShareLink(data: string) {
+  const { id } = await apiRequest<{ id: string }>("/api/share", {
+    method: "POST",
+    body: JSON.stringify({ data }),
+  });
+  return id;
+}
+
+export async function fetchShareLink(id: string) {
+  const { data } = await apiRequest<{ data: string }>(
+    `/api/share/${encodeURIComponent(id)}`
+  );
+  return data;
+}
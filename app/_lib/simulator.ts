@@ -0,0 +1,103 @@
+import * as turf from "@turf/turf";
+
+import { cumulativeMeters, type ProgressStep } from "./progress";
+import type { LngLat } from "./routing";
+
+/* ---------- GPS simulation ---------- */
+export type SimNoise = {
+  jitterM: number; // per-fix random error (1 sigma)
+  driftM: number; // slowly wandering bias, like multipath in a street canyon
+  dropout: number; // share of fixes lost, 0..1
+};
+
+export const NO_SIM_NOISE: SimNoise = { jitterM: 0, driftM: 0, dropout: 0 };
+
+export type Simulator = {
+  totalMeters: number;
+  // Point on the route and direction of travel there
+  pointAt: (meters: number) => { point: LngLat; bearing: number };
+  // Speed in m/s at a distance along the route, from the step durations
+  speedAt: (meters: number) => number | null;
+};
+
+// Route geometry is measured once; each tick is a binary search
+export function createSimulator(
+  geometry: LngLat[],
+  steps: ProgressStep[]
+): Simulator {
+  const cumulative = cumulativeMeters(geometry);
+  const totalMeters = cumulative[cumulative.length - 1] ?? 0;
+
+  const stepSpeeds = steps.map((s) => {
+    const length = cumulative[s.wayPoints[1]] - cumulative[s.wayPoints[0]];
+    return {
+      to: cumulative[s.wayPoints[1]],
+      speed: s.duration > 0 && length > 0 ? length / s.duration : null,
+    };
+  });
+
+  function segmentAt(meters: number) {
+    let lo = 0;
+    let hi = cumulative.length - 1;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (cumulative[mid] <= meters) lo = mid;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  return {
+    totalMeters,
+
+    pointAt(meters) {
+      const m = Math.max(0, Math.min(totalMeters, meters));
+      const i = Math.min(segmentAt(m), geometry.length - 2);
+      const [a, b] = [geometry[i], geometry[i + 1]];
+      const length = cumulative[i + 1] - cumulative[i];
+      const t = length > 0 ? (m - cumulative[i]) / length : 0;
+      return {
+        point: [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t],
+        bearing: turf.bearing(a, b),
+      };
+    },
+
+    speedAt(meters) {
+      const step = stepSpeeds.find((s) => meters < s.to);
+      return step?.speed ?? stepSpeeds[stepSpeeds.length - 1]?.speed ?? null;
+    },
+  };
+}
+
+export function offsetPoint(p: LngLat, meters: number, bearing: number) {
+  if (!meters) return p;
+  return turf.destination(p, meters, bearing, { units: "meters" }).geometry
+    .coordinates as LngLat;
+}
+
+function gaussian() {
+  const u = 1 - Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * Math.random());
+}
+
+// Degrades a true position into a GPS fix; null when the fix drops out.
+// `drift` is the caller's running bias in metres (east, north), updated here
+export function noisyFix(
+  p: LngLat,
+  noise: SimNoise,
+  drift: { e: number; n: number },
+  dtSeconds: number
+): LngLat | null {
+  // Mean-reverting random walk that settles around driftM
+  const keep = Math.exp(-dtSeconds / 30);
+  const kick = noise.driftM * Math.sqrt(1 - keep * keep);
+  drift.e = drift.e * keep + gaussian() * kick;
+  drift.n = drift.n * keep + gaussian() * kick;
+  if (Math.random() < noise.dropout) return null;
+
+  const e = drift.e + gaussian() * noise.jitterM;
+  const n = drift.n + gaussian() * noise.jitterM;
+  const metersPerDegLat = 111_320;
+  const metersPerDegLng = metersPerDegLat * Math.cos((p[1] * Math.PI) / 180);
+  return [p[0] + e / metersPerDegLng, p[1] + n / metersPerDegLat];
+}
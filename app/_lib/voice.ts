@@ -0,0 +1,146 @@
+import type { HazardCategory } from "./hazards";
+import { INSTRUCTION_LANGUAGES, type InstructionLanguage } from "./routing";
+
+/* ---------- Spoken guidance (Web Speech API) ---------- */
+type Phrases = {
+  in: (distance: string) => string;
+  now: string;
+  offRoute: string;
+  arrived: string;
+  hazardAhead: (category: string, distance: string) => string;
+  newHazardOnRoute: (category: string) => string;
+  meters: (n: number) => string;
+  kilometers: (n: string) => string;
+  categories: Record<HazardCategory, string>;
+};
+
+const PHRASES: Record<InstructionLanguage, Phrases> = {
+  en: {
+    in: (d) => `In ${d}`,
+    now: "Now",
+    offRoute: "You are off the route.",
+    arrived: "You have arrived.",
+    hazardAhead: (c, d) => `Caution: ${c} ahead in ${d}.`,
+    newHazardOnRoute: (c) => `New ${c} reported on your route.`,
+    meters: (n) => `${n} metres`,
+    kilometers: (n) => `${n} kilometres`,
+    categories: {
+      flood: "flooding",
+      roadworks: "roadworks",
+      landslide: "landslide",
+      accident: "accident",
+      closure: "road closure",
+      other: "hazard",
+    },
+  },
+  id: {
+    in: (d) => `Dalam ${d}`,
+    now: "Sekarang",
+    offRoute: "Anda keluar dari rute.",
+    arrived: "Anda telah tiba.",
+    hazardAhead: (c, d) => `Hati-hati: ${c} dalam ${d}.`,
+    newHazardOnRoute: (c) => `Laporan baru: ${c} di rute Anda.`,
+    meters: (n) => `${n} meter`,
+    kilometers: (n) => `${n} kilometer`,
+    categories: {
+      flood: "banjir",
+      roadworks: "perbaikan jalan",
+      landslide: "tanah longsor",
+      accident: "kecelakaan",
+      closure: "jalan ditutup",
+      other: "bahaya",
+    },
+  },
+  de: {
+    in: (d) => `In ${d}`,
+    now: "Jetzt",
+    offRoute: "Sie haben die Route verlassen.",
+    arrived: "Sie haben Ihr Ziel erreicht.",
+    hazardAhead: (c, d) => `Achtung: ${c} in ${d}.`,
+    newHazardOnRoute: (c) => `Neu gemeldet: ${c} auf Ihrer Route.`,
+    meters: (n) => `${n} Metern`,
+    kilometers: (n) => `${n} Kilometern`,
+    categories: {
+      flood: "Überflutung",
+      roadworks: "Baustelle",
+      landslide: "Erdrutsch",
+      accident: "Unfall",
+      closure: "Straßensperrung",
+      other: "Gefahrenstelle",
+    },
+  },
+  fr: {
+    in: (d) => `Dans ${d}`,
+    now: "Maintenant",
+    offRoute: "Vous avez quitté l'itinéraire.",
+    arrived: "Vous êtes arrivé.",
+    hazardAhead: (c, d) => `Attention : ${c} dans ${d}.`,
+    newHazardOnRoute: (c) => `Nouveau signalement : ${c} sur votre itinéraire.`,
+    meters: (n) => `${n} mètres`,
+    kilometers: (n) => `${n} kilomètres`,
+    categories: {
+      flood: "inondation",
+      roadworks: "travaux",
+      landslide: "glissement de terrain",
+      accident: "accident",
+      closure: "route fermée",
+      other: "danger",
+    },
+  },
+  es: {
+    in: (d) => `En ${d}`,
+    now: "Ahora",
+    offRoute: "Se ha salido de la ruta.",
+    arrived: "Ha llegado a su destino.",
+    hazardAhead: (c, d) => `Precaución: ${c} en ${d}.`,
+    newHazardOnRoute: (c) => `Nuevo aviso: ${c} en su ruta.`,
+    meters: (n) => `${n} metros`,
+    kilometers: (n) => `${n} kilómetros`,
+    categories: {
+      flood: "inundación",
+      roadworks: "obras",
+      landslide: "deslizamiento",
+      accident: "accidente",
+      closure: "carretera cortada",
+      other: "peligro",
+    },
+  },
+};
+
+export function phrases(language: InstructionLanguage) {
+  return PHRASES[language] ?? PHRASES.en;
+}
+
+// Rounded the way a person would say it
+export function spokenDistance(meters: number, language: InstructionLanguage) {
+  const p = phrases(language);
+  if (meters >= 1000) {
+    const km = Math.round(meters / 100) / 10;
+    return p.kilometers(
+      km.toLocaleString(INSTRUCTION_LANGUAGES[language].tag, {
+        maximumFractionDigits: 1,
+      })
+    );
+  }
+  const step = meters >= 200 ? 50 : 10;
+  return p.meters(Math.max(step, Math.round(meters / step) * step));
+}
+
+export function canSpeak() {
+  return typeof window !== "undefined" && "speechSynthesis" in window;
+}
+
+export function speak(
+  text: string,
+  { language, volume }: { language: InstructionLanguage; volume: number }
+) {
+  if (!canSpeak() || !text) return;
+  const u = new SpeechSynthesisUtterance(text);
+  u.lang = INSTRUCTION_LANGUAGES[language].tag;
+  u.volume = Math.min(1, Math.max(0, volume));
+  window.speechSynthesis.speak(u);
+}
+
+export function stopSpeaking() {
+  if (canSpeak()) window.speechSynthesis.cancel();
+}
@@ -0,0 +1,76 @@
+import * as turf from "@turf/turf";
+
+import type { LngLat } from "./routing";
+
+/* ---------- Intermediate stops ---------- */
+export type Waypoint = {
+  id: string;
+  pos: [number, number]; // [lat, lng]
+  label: string;
+};
+
+export function newWaypointId() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+function toLngLat(p: [number, number]): LngLat {
+  return [p[1], p[0]];
+}
+
+function pathKm(order: LngLat[]) {
+  let km = 0;
+  for (let i = 1; i < order.length; i++)
+    km += turf.distance(order[i - 1], order[i]);
+  return km;
+}
+
+// Nearest-neighbour tour refined with 2-opt on straight-line distance; the
+// start and end stay fixed
+export function optimiseStopOrder(
+  start: [number, number],
+  stops: Waypoint[],
+  end: [number, number]
+): Waypoint[] {
+  if (stops.length < 2) return stops;
+  const remaining = stops.slice();
+  const order: Waypoint[] = [];
+  let cur = toLngLat(start);
+  while (remaining.length) {
+    let best = 0;
+    let bestKm = Infinity;
+    remaining.forEach((w, i) => {
+      const km = turf.distance(cur, toLngLat(w.pos));
+      if (km < bestKm) {
+        bestKm = km;
+        best = i;
+      }
+    });
+    const [next] = remaining.splice(best, 1);
+    order.push(next);
+    cur = toLngLat(next.pos);
+  }
+
+  const km = (o: Waypoint[]) =>
+    pathKm([toLngLat(start), ...o.map((w) => toLngLat(w.pos)), toLngLat(end)]);
+  let bestOrder = order;
+  let bestKm = km(order);
+  for (let improved = true; improved;) {
+    improved = false;
+    for (let i = 0; i < bestOrder.length - 1; i++) {
+      for (let j = i + 1; j < bestOrder.length; j++) {
+        const candidate = [
+          ...bestOrder.slice(0, i),
+          ...bestOrder.slice(i, j + 1).reverse(),
+          ...bestOrder.slice(j + 1),
+        ];
+        const candidateKm = km(candidate);
+        if (candidateKm < bestKm - 1e-9) {
+          bestOrder = candidate;
+          bestKm = candidateKm;
+          improved = true;
+        }
+      }
+    }
+  }
+  return bestOrder;
+}
@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+
+import {
+  AVOID_FEATURES,
+  INSTRUCTION_LANGUAGES,
+  MAX_ALTERNATIVES,
+  TRAVEL_PROFILES,
+  type AvoidFeature,
+  type HgvParams,
+  type InstructionLanguage,
+  type NormalizedRoute,
+  type RouteOptions,
+  type RouteRequest,
+  type TravelProfile,
+} from "../../_lib/routing";
+import { createTtlCache } from "../../_lib/server/cache";
+import { ApiError, clientKey, errorResponse } from "../../_lib/server/http";
+import { createRateLimiter } from "../../_lib/server/rateLimit";
+import { getRoutingProvider } from "../../_lib/server/routing";
+
+const cache = createTtlCache<NormalizedRoute>(200, 10 * 60_000);
+const limiter = createRateLimiter(20);
+
+function isLngLat(v: unknown) {
+  return (
+    Array.isArray(v) &&
+    v.length === 2 &&
+    v.every((n) => typeof n === "number" && Number.isFinite(n))
+  );
+}
+
+function positive(v: unknown) {
+  return typeof v === "number" && Number.isFinite(v) && v > 0 ? v : undefined;
+}
+
+function parseOptions(o: any): RouteOptions {
+  const profile = o?.profile ?? "car";
+  if (typeof profile !== "string" || !Object.hasOwn(TRAVEL_PROFILES, profile)) {
+    throw new ApiError(
+      400,
+      "invalid_request",
+      `options.profile must be one of: ${Object.keys(TRAVEL_PROFILES).join(", ")}.`
+    );
+  }
+  const hgv: HgvParams | undefined =
+    profile === "hgv"
+      ? {
+          heightM: positive(o?.hgv?.heightM),
+          weightT: positive(o?.hgv?.weightT),
+          axleLoadT: positive(o?.hgv?.axleLoadT),
+          hazmat: o?.hgv?.hazmat === true,
+        }
+      : undefined;
+  const language =
+    typeof o?.language === "string" &&
+    Object.hasOwn(INSTRUCTION_LANGUAGES, o.language)
+      ? (o.language as InstructionLanguage)
+      : "en";
+  return {
+    profile: profile as TravelProfile,
+    language,
+    hgv,
+    avoidFeatures: Array.isArray(o?.avoidFeatures)
+      ? o.avoidFeatures.filter(
+          (f: unknown): f is AvoidFeature =>
+            typeof f === "string" && Object.hasOwn(AVOID_FEATURES, f)
+        )
+      : [],
+    alternatives: Math.max(
+      0,
+      Math.min(MAX_ALTERNATIVES, Math.floor(o?.alternatives) || 0)
+    ),
+  };
+}
+
+// POST { coordinates: [lng, lat][], avoidPolygons?, options? } -> NormalizedRoute
+export async function POST(request: Request) {
+  try {
+    limiter.take(clientKey(request));
+    const body = await request.json().catch(() => null);
+    if (
+      !Array.isArray(body?.coordinates) ||
+      body.coordinates.length < 2 ||
+      !body.coordinates.every(isLngLat)
+    ) {
+      throw new ApiError(
+        400,
+        "invalid_request",
+        "Body must include coordinates: [lng, lat][] (at least two)."
+      );
+    }
+    if (body.avoidPolygons && body.avoidPolygons.type !== "MultiPolygon") {
+      throw new ApiError(
+        400,
+        "invalid_request",
+        "avoidPolygons must be a MultiPolygon."
+      );
+    }
+    const req: RouteRequest = {
+      coordinates: body.coordinates,
+      avoidPolygons: body.avoidPolygons ?? null,
+      options: parseOptions(body.options),
+    };
+    const provider = getRoutingProvider();
+    const route = await cache.get(JSON.stringify([provider.name, req]), () =>
+      provider.route(req)
+    );
+    return NextResponse.json(route);
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+
+import { createTtlCache } from "../../_lib/server/cache";
+import { ApiError, clientKey, errorResponse } from "../../_lib/server/http";
+import { orsFetch } from "../../_lib/server/ors";
+import { createRateLimiter } from "../../_lib/server/rateLimit";
+
+const cache = createTtlCache<unknown>(1000, 60 * 60_000);
+const limiter = createRateLimiter(60);
+
+// GET ?text=...&size=6 -> ORS geocode autocomplete FeatureCollection
+export async function GET(request: Request) {
+  try {
+    limiter.take(clientKey(request));
+    const { searchParams } = new URL(request.url);
+    const text = searchParams.get("text")?.trim() ?? "";
+    if (text.length < 2) {
+      throw new ApiError(
+        400,
+        "invalid_request",
+        "text must be at least 2 characters."
+      );
+    }
+    const size = Math.min(
+      20,
+      Math.max(1, parseInt(searchParams.get("size") ?? "6", 10) || 6)
+    );
+    const qs = new URLSearchParams({ text, size: String(size) });
+    const data = await cache.get(qs.toString().toLowerCase(), () =>
+      orsFetch(`/geocode/autocomplete?${qs}`)
+    );
+    return NextResponse.json(data);
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+
+import {
+  HAZARD_REVIEW_ACTIONS,
+  type HazardReviewAction,
+} from "../../../../_lib/hazards";
+import {
+  editorOf,
+  publishHazardEvent,
+} from "../../../../_lib/server/hazardEvents";
+import {
+  HazardConflictError,
+  hazardStore,
+} from "../../../../_lib/server/hazardStore";
+import { isModerator } from "../../../../_lib/server/moderation";
+
+type Params = { params: Promise<{ id: string }> };
+
+// POST { action: confirm | dispute | approve | reject | resolve | acceptEdit
+// | declineEdit }
+export async function POST(request: Request, { params }: Params) {
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  const action = body?.action as HazardReviewAction;
+  if (!Object.hasOwn(HAZARD_REVIEW_ACTIONS, action)) {
+    return NextResponse.json(
+      {
+        error: `Body must be { action: ${Object.keys(HAZARD_REVIEW_ACTIONS).join(" | ")} }`,
+      },
+      { status: 400 }
+    );
+  }
+  if (HAZARD_REVIEW_ACTIONS[action].moderator && !isModerator(request)) {
+    return NextResponse.json(
+      { error: "Only moderators can do that", code: "forbidden" },
+      { status: 403 }
+    );
+  }
+  const editor = editorOf(request);
+  // Votes are counted per name, so a name is needed to cast one
+  if (!editor.by) {
+    return NextResponse.json(
+      { error: "Enter your name first", code: "name_required" },
+      { status: 400 }
+    );
+  }
+
+  let hazard;
+  try {
+    hazard = await hazardStore.review(id, action, editor.by);
+  } catch (e) {
+    if (!(e instanceof HazardConflictError)) throw e;
+    return NextResponse.json(
+      { error: e.message, code: "conflict", hazard: e.current },
+      { status: 409 }
+    );
+  }
+  if (!hazard) {
+    return NextResponse.json({ error: "Hazard not found" }, { status: 404 });
+  }
+  publishHazardEvent({ type: "upsert", hazard, action, ...editor });
+  return NextResponse.json(hazard);
+}
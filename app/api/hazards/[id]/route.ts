@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+
+import { isHazardGeometry, parseHazardDraft } from "../../../_lib/hazards";
+import {
+  editorOf,
+  publishHazardEvent,
+} from "../../../_lib/server/hazardEvents";
+import {
+  HazardConflictError,
+  hazardStore,
+} from "../../../_lib/server/hazardStore";
+import { isModerator } from "../../../_lib/server/moderation";
+
+type Params = { params: Promise<{ id: string }> };
+
+// 409 carries the stored hazard so the client can show what changed
+function conflictResponse(e: unknown) {
+  if (!(e instanceof HazardConflictError)) throw e;
+  return NextResponse.json(
+    { error: e.message, code: "conflict", hazard: e.current },
+    { status: 409 }
+  );
+}
+
+function baseVersion(value: unknown) {
+  const n = typeof value === "string" ? parseInt(value, 10) : value;
+  return typeof n === "number" && Number.isInteger(n) ? n : undefined;
+}
+
+export async function PUT(request: Request, { params }: Params) {
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  if (
+    !body ||
+    (body.geometry !== undefined && !isHazardGeometry(body.geometry))
+  ) {
+    return NextResponse.json(
+      {
+        error:
+          "Body must be { geometry?: Polygon | MultiPolygon, properties?, baseVersion? }",
+      },
+      { status: 400 }
+    );
+  }
+  const editor = editorOf(request);
+  let hazard;
+  try {
+    hazard = await hazardStore.update(
+      id,
+      {
+        geometry: body.geometry,
+        properties: parseHazardDraft(body.properties),
+      },
+      {
+        by: editor.by,
+        baseVersion: baseVersion(body.baseVersion),
+        moderator: isModerator(request),
+      }
+    );
+  } catch (e) {
+    return conflictResponse(e);
+  }
+  if (!hazard) {
+    return NextResponse.json({ error: "Hazard not found" }, { status: 404 });
+  }
+  publishHazardEvent({ type: "upsert", hazard, ...editor });
+  return NextResponse.json(hazard);
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const { id } = await params;
+  if (!isModerator(request)) {
+    return NextResponse.json(
+      { error: "Only moderators can delete hazards", code: "forbidden" },
+      { status: 403 }
+    );
+  }
+  const version = new URL(request.url).searchParams.get("baseVersion");
+  let removed;
+  try {
+    removed = await hazardStore.remove(id, baseVersion(version));
+  } catch (e) {
+    return conflictResponse(e);
+  }
+  if (!removed) {
+    return NextResponse.json({ error: "Hazard not found" }, { status: 404 });
+  }
+  publishHazardEvent({ type: "delete", id, ...editorOf(request) });
+  return new NextResponse(null, { status: 204 });
+}
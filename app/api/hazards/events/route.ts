@@ -0,0 +1,50 @@
+import { subscribeHazardEvents } from "../../../_lib/server/hazardEvents";
+
+// A long-lived stream per client; never cache or prerender it
+export const dynamic = "force-dynamic";
+
+// Proxies drop connections that stay silent for too long
+const HEARTBEAT_MS = 25_000;
+
+export async function GET(request: Request) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      send("retry: 3000\n\n");
+      const unsubscribe = subscribeHazardEvents((event) =>
+        send(`data: ${JSON.stringify(event)}\n\n`)
+      );
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_MS);
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {}
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+
+import {
+  isModerator,
+  moderationConfigured,
+} from "../../../_lib/server/moderation";
+
+// Whether the X-Moderator-Key sent (if any) grants moderation
+export async function GET(request: Request) {
+  return NextResponse.json({
+    moderator: isModerator(request),
+    configured: moderationConfigured,
+  });
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+
+import {
+  isHazardGeometry,
+  parseHazardDraft,
+  type HazardCollection,
+} from "../../_lib/hazards";
+import { editorOf, publishHazardEvent } from "../../_lib/server/hazardEvents";
+import { hazardStore } from "../../_lib/server/hazardStore";
+import { isModerator } from "../../_lib/server/moderation";
+
+export async function GET() {
+  const collection: HazardCollection = {
+    type: "FeatureCollection",
+    features: await hazardStore.list(),
+  };
+  return NextResponse.json(collection);
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  if (!isHazardGeometry(body?.geometry)) {
+    return NextResponse.json(
+      {
+        error: "Body must be { geometry: Polygon | MultiPolygon, properties? }",
+      },
+      { status: 400 }
+    );
+  }
+  const editor = editorOf(request);
+  const hazard = await hazardStore.create(
+    body.geometry,
+    parseHazardDraft(body.properties),
+    { by: editor.by, status: isModerator(request) ? "approved" : "pending" }
+  );
+  publishHazardEvent({ type: "upsert", hazard, ...editor });
+  return NextResponse.json(hazard, { status: 201 });
+}
+
+export async function DELETE(request: Request) {
+  if (!isModerator(request)) {
+    return NextResponse.json(
+      { error: "Only moderators can clear hazards", code: "forbidden" },
+      { status: 403 }
+    );
+  }
+  await hazardStore.clear();
+  publishHazardEvent({ type: "clear", ...editorOf(request) });
+  return new NextResponse(null, { status: 204 });
+}
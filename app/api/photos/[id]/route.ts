@@ -0,0 +1,21 @@
+import { ApiError, errorResponse } from "../../../_lib/server/http";
+import { photoStore } from "../../../_lib/server/photoStore";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Photos never change once uploaded, so they can be cached for good
+export async function GET(_request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const photo = await photoStore.get(id);
+    if (!photo) throw new ApiError(404, "not_found", "Photo not found.");
+    return new Response(new Uint8Array(photo.bytes), {
+      headers: {
+        "Content-Type": photo.type,
+        "Cache-Control": "public, max-age=31536000, immutable",
+      },
+    });
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+
+import { ApiError, clientKey, errorResponse } from "../../_lib/server/http";
+import { PHOTO_TYPES, photoStore } from "../../_lib/server/photoStore";
+import { createRateLimiter } from "../../_lib/server/rateLimit";
+
+const MAX_PHOTO_BYTES = 5_000_000;
+const limiter = createRateLimiter(20);
+
+// POST raw image bytes (JPEG, PNG or WebP) -> 201 { id }
+export async function POST(request: Request) {
+  try {
+    limiter.take(clientKey(request));
+    const type = request.headers.get("content-type")?.split(";")[0] ?? "";
+    if (!Object.hasOwn(PHOTO_TYPES, type)) {
+      throw new ApiError(
+        415,
+        "unsupported_type",
+        "Photo must be a JPEG, PNG or WebP image."
+      );
+    }
+    const bytes = new Uint8Array(await request.arrayBuffer());
+    if (!bytes.length) {
+      throw new ApiError(400, "invalid_request", "Photo is empty.");
+    }
+    if (bytes.length > MAX_PHOTO_BYTES) {
+      throw new ApiError(413, "too_large", "Photo is larger than 5 MB.");
+    }
+    const id = await photoStore.create(bytes, type);
+    return NextResponse.json({ id }, { status: 201 });
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
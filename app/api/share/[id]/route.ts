@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+
+import { ApiError, errorResponse } from "../../../_lib/server/http";
+import { shareStore } from "../../../_lib/server/shareStore";
+
+type Params = { params: Promise<{ id: string }> };
+
+// GET -> { data: encoded scenario }
+export async function GET(_request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const share = await shareStore.get(id);
+    if (!share) throw new ApiError(404, "not_found", "Share link not found.");
+    return NextResponse.json({ data: share.data });
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+
+import { ApiError, clientKey, errorResponse } from "../../_lib/server/http";
+import { createRateLimiter } from "../../_lib/server/rateLimit";
+import { shareStore } from "../../_lib/server/shareStore";
+
+const MAX_SHARE_LENGTH = 2_000_000; // encoded characters
+const limiter = createRateLimiter(10);
+
+// POST { data: encoded scenario } -> 201 { id }
+export async function POST(request: Request) {
+  try {
+    limiter.take(clientKey(request));
+    const body = await request.json().catch(() => null);
+    if (typeof body?.data !== "string" || !/^[\w-]+$/.test(body.data)) {
+      throw new ApiError(
+        400,
+        "invalid_request",
+        "Body must be { data: string } (base64url)."
+      );
+    }
+    if (body.data.length > MAX_SHARE_LENGTH) {
+      throw new ApiError(413, "too_large", "Scenario is too large to share.");
+    }
+    const id = await shareStore.create(body.data);
+    return NextResponse.json({ id }, { status: 201 });
+  } catch (e) {
+    return errorResponse(e);
+  }
+}